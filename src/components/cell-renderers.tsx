@@ -0,0 +1,336 @@
+import { Fragment, useContext, useState } from "react";
+import {
+  AlertCircle,
+  Check,
+  ChevronDown,
+  ChevronRight,
+  Loader2,
+  MoreHorizontal,
+} from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ContainerActionsContext } from "@/hooks/use-container-actions";
+import { cellText } from "@/lib/cells";
+import { CellRendererProps } from "@/lib/cell-renderers";
+import {
+  ContainerAction,
+  DESTRUCTIVE_ACTIONS,
+  actionsFor,
+  containerStateOf,
+} from "@/lib/container-actions";
+import { splitMatches } from "@/lib/filter";
+
+// The results grid's built-in cell renderers. ResultsGrid picks one per
+// column type; see @/lib/cell-renderers for registering others.
+
+// Shows `text` with the parts matching the quick search marked
+export function Highlighted({
+  text,
+  search,
+}: {
+  text: string;
+  search: string;
+}) {
+  if (!search.trim()) return <>{text}</>;
+  return (
+    <>
+      {splitMatches(text, search).map((part, index) =>
+        part.match ? (
+          <mark key={index} className="bg-yellow-200">
+            {part.text}
+          </mark>
+        ) : (
+          <Fragment key={index}>{part.text}</Fragment>
+        )
+      )}
+    </>
+  );
+}
+
+export function TextCell({ value, search }: CellRendererProps) {
+  return (
+    <span className="truncate">
+      <Highlighted text={cellText(value)} search={search} />
+    </span>
+  );
+}
+
+const numberFormat = new Intl.NumberFormat(undefined, {
+  maximumFractionDigits: 6,
+});
+
+// Right-aligned with digit grouping. Anything that is not a number, such as
+// an error message, is shown as it came.
+export function NumberCell(props: CellRendererProps) {
+  const { value, search } = props;
+  const number =
+    typeof value === "number"
+      ? value
+      : typeof value === "string" && value.trim() !== ""
+        ? Number(value)
+        : NaN;
+  if (!Number.isFinite(number)) return <TextCell {...props} />;
+  return (
+    <span className="ml-auto truncate tabular-nums" title={cellText(value)}>
+      <Highlighted text={numberFormat.format(number)} search={search} />
+    </span>
+  );
+}
+
+export function BooleanCell(props: CellRendererProps) {
+  const { value, search } = props;
+  const text = cellText(value).toLowerCase();
+  if (text !== "true" && text !== "false") return <TextCell {...props} />;
+  return (
+    <span
+      className={`px-2 rounded-full text-xs font-medium ${
+        text === "true"
+          ? "bg-green-100 text-green-700"
+          : "bg-red-100 text-red-700"
+      }`}
+    >
+      <Highlighted text={text} search={search} />
+    </span>
+  );
+}
+
+// METADATA may arrive as an object or, from some servers, as its JSON text
+const parseJson = (value: unknown): unknown => {
+  if (typeof value !== "string") return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+};
+
+const STATE_COLORS: Record<string, string> = {
+  running: "bg-green-500",
+  paused: "bg-yellow-500",
+  restarting: "bg-blue-500",
+  created: "bg-gray-400",
+  exited: "bg-red-500",
+  dead: "bg-red-500",
+  removed: "bg-gray-300",
+};
+
+// Name chip coloured by the container's state, when the row shows it. Inside
+// a ContainerActionsContext it also offers the lifecycle actions allowed in
+// that state, a checkbox for bulk actions and the last action's outcome.
+export function ContainerCell({
+  value,
+  row,
+  columns,
+  search,
+}: CellRendererProps) {
+  const actions = useContext(ContainerActionsContext);
+  if (value === null || value === undefined) return null;
+  const name = cellText(value);
+  const state = containerStateOf(row, columns);
+  const status = actions?.statuses[name];
+  const available = actionsFor(state);
+
+  const run = (action: ContainerAction) => {
+    if (
+      DESTRUCTIVE_ACTIONS.includes(action) &&
+      !confirm(`${action} container ${name}?`)
+    ) {
+      return;
+    }
+    actions?.runAction(action, [{ name, state }]);
+  };
+
+  return (
+    <span className="flex items-center min-w-0 w-full">
+      {actions && (
+        <input
+          type="checkbox"
+          checked={actions.selected.includes(name)}
+          onChange={() => actions.toggleSelected(name)}
+          className="flex-shrink-0 mr-2"
+          aria-label={`Select ${name}`}
+        />
+      )}
+      <span
+        className="inline-flex items-center min-w-0 px-2 rounded-full bg-gray-100 text-xs"
+        title={state ? `${name} (${state})` : name}
+      >
+        <span
+          className={`flex-shrink-0 mr-1 w-2 h-2 rounded-full ${
+            (state && STATE_COLORS[state.toLowerCase()]) || "bg-gray-300"
+          }`}
+        />
+        <span className="truncate">
+          <Highlighted text={name} search={search} />
+        </span>
+      </span>
+      {status && (
+        <span
+          className="flex-shrink-0 ml-1"
+          title={`${status.action}: ${status.message ?? status.status}`}
+        >
+          {status.status === "pending" ? (
+            <Loader2 className="w-3 h-3 animate-spin text-[#0c9abc]" />
+          ) : status.status === "success" ? (
+            <Check className="w-3 h-3 text-green-600" />
+          ) : (
+            <AlertCircle className="w-3 h-3 text-red-600" />
+          )}
+        </span>
+      )}
+      {status?.status === "error" && (
+        <span className="ml-1 truncate text-xs text-red-600">
+          {status.message}
+        </span>
+      )}
+      {actions && available.length > 0 && (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <button
+              className="flex-shrink-0 ml-auto p-0.5 rounded hover:bg-gray-200 disabled:opacity-50"
+              disabled={status?.status === "pending"}
+              aria-label={`Actions for ${name}`}
+              title="Container actions"
+            >
+              <MoreHorizontal className="w-4 h-4" />
+            </button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuLabel>{name}</DropdownMenuLabel>
+            {available.map((action) => (
+              <DropdownMenuItem key={action} onSelect={() => run(action)}>
+                {action.charAt(0) + action.slice(1).toLowerCase()}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )}
+    </span>
+  );
+}
+
+export function JsonCell({ value, search }: CellRendererProps) {
+  return (
+    <span className="truncate font-mono text-xs text-gray-700">
+      <Highlighted text={cellText(parseJson(value))} search={search} />
+    </span>
+  );
+}
+
+interface JsonNodeProps {
+  name: string | null; // Null for the root
+  value: unknown;
+  depth: number;
+  search: string;
+}
+
+const isNested = (value: unknown): value is object =>
+  typeof value === "object" && value !== null;
+
+function JsonNode({ name, value, depth, search }: JsonNodeProps) {
+  // The first two levels start open; deeper ones on demand
+  const [isOpen, setIsOpen] = useState(depth < 2);
+  const label = name !== null && (
+    <span className="text-[#0c9abc]">
+      <Highlighted text={name} search={search} />:{" "}
+    </span>
+  );
+
+  if (!isNested(value)) {
+    return (
+      <div className="pl-4 whitespace-pre-wrap break-all">
+        {label}
+        <span className={typeof value === "string" ? "text-green-700" : ""}>
+          <Highlighted text={JSON.stringify(value)} search={search} />
+        </span>
+      </div>
+    );
+  }
+
+  const entries = Object.entries(value);
+  const [open, close] = Array.isArray(value) ? ["[", "]"] : ["{", "}"];
+  return (
+    <div>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center text-left hover:bg-gray-100 rounded"
+        aria-expanded={isOpen}
+      >
+        {isOpen ? (
+          <ChevronDown className="w-4 h-4 flex-shrink-0" />
+        ) : (
+          <ChevronRight className="w-4 h-4 flex-shrink-0" />
+        )}
+        {label}
+        {isOpen ? (
+          open
+        ) : (
+          <span className="text-gray-500">
+            {open} {entries.length} {entries.length === 1 ? "item" : "items"}{" "}
+            {close}
+          </span>
+        )}
+      </button>
+      {isOpen && (
+        <>
+          <div className="ml-2 border-l border-gray-200">
+            {entries.map(([key, child]) => (
+              <JsonNode
+                key={key}
+                name={Array.isArray(value) ? null : key}
+                value={child}
+                depth={depth + 1}
+                search={search}
+              />
+            ))}
+          </div>
+          <div className="pl-4">{close}</div>
+        </>
+      )}
+    </div>
+  );
+}
+
+// Collapsible tree of a METADATA value
+export function JsonDetail({ value, search }: CellRendererProps) {
+  return (
+    <div className="font-mono text-xs">
+      <JsonNode
+        name={null}
+        value={parseJson(value)}
+        depth={0}
+        search={search}
+      />
+    </div>
+  );
+}
+
+// The first line of a command's output, with the number of lines left out
+export function CommandOutputCell({ value, search }: CellRendererProps) {
+  const lines = cellText(value).split("\n");
+  return (
+    <span className="flex items-center min-w-0 font-mono text-xs">
+      <span className="truncate">
+        <Highlighted text={lines[0]} search={search} />
+      </span>
+      {lines.length > 1 && (
+        <span className="flex-shrink-0 ml-2 text-gray-400">
+          +{lines.length - 1} {lines.length === 2 ? "line" : "lines"}
+        </span>
+      )}
+    </span>
+  );
+}
+
+export function CommandOutputDetail({ value, search }: CellRendererProps) {
+  return (
+    <pre className="max-h-64 overflow-auto whitespace-pre font-mono text-xs bg-gray-50 p-2 rounded border">
+      <Highlighted text={cellText(value)} search={search} />
+    </pre>
+  );
+}
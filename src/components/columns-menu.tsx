@@ -0,0 +1,78 @@
+import { ChevronDown, Columns3 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { GridViewState, shownColumns } from "@/lib/grid-view";
+import { Column } from "@/lib/query-types";
+
+interface ColumnsMenuProps {
+  columns: Column[];
+  view: GridViewState;
+  onViewChange: (update: Partial<GridViewState>) => void;
+}
+
+// Shows or hides result columns and resets the layout of the grid
+export function ColumnsMenu({ columns, view, onViewChange }: ColumnsMenuProps) {
+  const hiddenCount = view.hiddenColumns.filter(
+    (index) => index < columns.length
+  ).length;
+  // Listed in display order, hidden ones included
+  const order = shownColumns({ ...view, hiddenColumns: [] }, columns.length);
+
+  const toggle = (index: number, visible: boolean) =>
+    onViewChange({
+      hiddenColumns: visible
+        ? view.hiddenColumns.filter((hidden) => hidden !== index)
+        : [...view.hiddenColumns, index],
+    });
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-7 text-xs">
+          <Columns3 className="mr-1 w-3 h-3" />
+          Columns
+          {hiddenCount > 0 && ` (${hiddenCount} hidden)`}
+          <ChevronDown className="ml-1 w-3 h-3" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="max-h-80 overflow-auto">
+        <DropdownMenuLabel>Shown columns</DropdownMenuLabel>
+        {order.map((index) => {
+          const visible = !view.hiddenColumns.includes(index);
+          return (
+            <DropdownMenuCheckboxItem
+              key={index}
+              checked={visible}
+              // At least one column stays on display
+              disabled={visible && hiddenCount === columns.length - 1}
+              onCheckedChange={(checked) => toggle(index, checked)}
+              onSelect={(e) => e.preventDefault()}
+            >
+              {columns[index].name || `Column ${index + 1}`}
+            </DropdownMenuCheckboxItem>
+          );
+        })}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem
+          onSelect={() =>
+            onViewChange({
+              columnWidths: [],
+              columnOrder: [],
+              hiddenColumns: [],
+            })
+          }
+        >
+          Reset column layout
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
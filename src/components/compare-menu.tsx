@@ -0,0 +1,116 @@
+import { Fragment } from "react";
+import { Camera, GitCompare, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Tab } from "@/lib/workspace";
+
+// A result to diff the active one against: a tab's snapshot, or the result
+// a tab has on display
+export interface CompareSource {
+  tabId: string;
+  kind: "snapshot" | "result";
+}
+
+interface CompareMenuProps {
+  tabs: Tab[];
+  currentTabId: string;
+  comparing: boolean;
+  onSnapshot: () => void;
+  onCompare: (source: CompareSource) => void;
+  onStopComparing: () => void;
+}
+
+const takenAt = (iso: string) => new Date(iso).toLocaleTimeString();
+
+const hasResultSet = (tab: Tab) =>
+  tab.results[tab.activeResultIndex]?.response.kind === "resultSet";
+
+// Takes a snapshot of the active result and picks what to diff it against.
+export function CompareMenu({
+  tabs,
+  currentTabId,
+  comparing,
+  onSnapshot,
+  onCompare,
+  onStopComparing,
+}: CompareMenuProps) {
+  const currentTab = tabs.find((tab) => tab.id === currentTabId);
+  const otherTabs = tabs.filter(
+    (tab) => tab.id !== currentTabId && (tab.snapshot || hasResultSet(tab))
+  );
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant={comparing ? "secondary" : "ghost"}
+          size="sm"
+          className="h-7 text-xs"
+          title="Snapshot the results and diff them against another result"
+        >
+          <GitCompare className="mr-1 w-3 h-3" />
+          Compare
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="text-xs">
+        <DropdownMenuItem onSelect={onSnapshot}>
+          <Camera className="mr-2 w-3 h-3" />
+          {currentTab?.snapshot ? "Replace snapshot" : "Take snapshot"}
+        </DropdownMenuItem>
+        {currentTab?.snapshot && (
+          <DropdownMenuItem
+            onSelect={() =>
+              onCompare({ tabId: currentTabId, kind: "snapshot" })
+            }
+          >
+            Compare with snapshot from {takenAt(currentTab.snapshot.takenAt)}
+          </DropdownMenuItem>
+        )}
+        {otherTabs.length > 0 && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuLabel>Compare with another tab</DropdownMenuLabel>
+            {otherTabs.map((tab) => (
+              <Fragment key={tab.id}>
+                {hasResultSet(tab) && (
+                  <DropdownMenuItem
+                    onSelect={() =>
+                      onCompare({ tabId: tab.id, kind: "result" })
+                    }
+                  >
+                    {tab.name}: current result
+                  </DropdownMenuItem>
+                )}
+                {tab.snapshot && (
+                  <DropdownMenuItem
+                    onSelect={() =>
+                      onCompare({ tabId: tab.id, kind: "snapshot" })
+                    }
+                  >
+                    {tab.name}: snapshot from {takenAt(tab.snapshot.takenAt)}
+                  </DropdownMenuItem>
+                )}
+              </Fragment>
+            ))}
+          </>
+        )}
+        {comparing && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onSelect={onStopComparing}>
+              <X className="mr-2 w-3 h-3" />
+              Stop comparing
+            </DropdownMenuItem>
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,76 @@
+import { useEffect, useRef } from "react";
+import { CompletionItem, CompletionKind } from "@/lib/completion";
+
+const KIND_LABELS: Record<CompletionKind, string> = {
+  keyword: "kw",
+  function: "fn",
+  table: "tbl",
+  column: "col",
+  container: "ctr",
+};
+
+const KIND_COLORS: Record<CompletionKind, string> = {
+  keyword: "text-[#4A90E2]",
+  function: "text-[#D0021B]",
+  table: "text-purple-600",
+  column: "text-gray-600",
+  container: "text-[#0c9abc]",
+};
+
+interface CompletionPopupProps {
+  items: CompletionItem[];
+  selectedIndex: number;
+  position: { top: number; left: number };
+  onSelect: (index: number) => void;
+  onHover: (index: number) => void;
+}
+
+export function CompletionPopup({
+  items,
+  selectedIndex,
+  position,
+  onSelect,
+  onHover,
+}: CompletionPopupProps) {
+  const listRef = useRef<HTMLUListElement>(null);
+
+  useEffect(() => {
+    listRef.current?.children[selectedIndex]?.scrollIntoView({
+      block: "nearest",
+    });
+  }, [selectedIndex]);
+
+  return (
+    <ul
+      ref={listRef}
+      className="absolute z-20 min-w-48 max-h-48 overflow-auto rounded border bg-white shadow-lg text-left text-xs"
+      style={{ top: position.top, left: position.left }}
+      role="listbox"
+    >
+      {items.map((item, index) => (
+        <li
+          key={`${item.kind}-${item.label}`}
+          role="option"
+          aria-selected={index === selectedIndex}
+          className={`flex items-center px-2 py-1 cursor-pointer ${
+            index === selectedIndex ? "bg-[#0c9abc]/10" : ""
+          }`}
+          // mousedown keeps the focus in the editor
+          onMouseDown={(e) => {
+            e.preventDefault();
+            onSelect(index);
+          }}
+          onMouseEnter={() => onHover(index)}
+        >
+          <span className={`w-8 flex-shrink-0 ${KIND_COLORS[item.kind]}`}>
+            {KIND_LABELS[item.kind]}
+          </span>
+          <span className="font-mono">{item.label}</span>
+          {item.detail && (
+            <span className="ml-4 text-gray-400 font-mono">{item.detail}</span>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
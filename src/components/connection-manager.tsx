@@ -0,0 +1,317 @@
+import React, { useState } from "react";
+import { ChevronDown, Pencil, Plus, Trash2 } from "lucide-react";
+import { GoPlug } from "react-icons/go";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  ConnectionKind,
+  ConnectionProfile,
+  DEFAULT_TIMEOUT_MS,
+  formatHeaderLines,
+  parseHeaderLines,
+} from "@/lib/connections";
+import { HealthStatus, createTransport } from "@/lib/transport";
+
+const describeTarget = (profile: ConnectionProfile) =>
+  profile.kind === "mock" ? "in-browser mock engine" : profile.url;
+
+interface ConnectionPickerProps {
+  connections: ConnectionProfile[];
+  activeConnection: ConnectionProfile;
+  onSelect: (id: string) => void;
+  onManage: () => void;
+}
+
+export function ConnectionPicker({
+  connections,
+  activeConnection,
+  onSelect,
+  onManage,
+}: ConnectionPickerProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" className="flex items-center">
+          <GoPlug className="mr-2 w-4 h-4" />
+          {activeConnection.name}
+          <ChevronDown className="ml-2 w-4 h-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start">
+        <DropdownMenuLabel>Connection</DropdownMenuLabel>
+        <DropdownMenuRadioGroup
+          value={activeConnection.id}
+          onValueChange={onSelect}
+        >
+          {connections.map((profile) => (
+            <DropdownMenuRadioItem key={profile.id} value={profile.id}>
+              <span>{profile.name}</span>
+              <span className="ml-2 text-xs text-gray-400">
+                {describeTarget(profile)}
+              </span>
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onSelect={onManage}>
+          Manage connections...
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+interface ConnectionFormState {
+  name: string;
+  kind: ConnectionKind;
+  url: string;
+  token: string;
+  headers: string;
+  timeoutSeconds: string;
+}
+
+const toFormState = (profile?: ConnectionProfile): ConnectionFormState => ({
+  name: profile?.name ?? "",
+  kind: profile?.kind ?? "http",
+  url: profile?.url ?? "",
+  token: profile?.token ?? "",
+  headers: profile ? formatHeaderLines(profile.headers) : "",
+  timeoutSeconds: String((profile?.timeoutMs ?? DEFAULT_TIMEOUT_MS) / 1000),
+});
+
+interface ConnectionManagerDialogProps {
+  connections: ConnectionProfile[];
+  onAdd: (profile: Omit<ConnectionProfile, "id">) => void;
+  onUpdate: (profile: ConnectionProfile) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+export function ConnectionManagerDialog({
+  connections,
+  onAdd,
+  onUpdate,
+  onDelete,
+  onClose,
+}: ConnectionManagerDialogProps) {
+  // null: no form open, "new": adding a profile, otherwise the edited profile id
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<ConnectionFormState>(toFormState());
+  const [formError, setFormError] = useState<string | null>(null);
+  const [healthById, setHealthById] = useState<
+    Record<string, HealthStatus | "checking">
+  >({});
+
+  const checkHealth = async (profile: ConnectionProfile) => {
+    setHealthById((prev) => ({ ...prev, [profile.id]: "checking" }));
+    const status = await createTransport(profile).healthCheck();
+    setHealthById((prev) => ({ ...prev, [profile.id]: status }));
+  };
+
+  const renderHealth = (profile: ConnectionProfile) => {
+    const status = healthById[profile.id];
+    if (!status) return null;
+    if (status === "checking") {
+      return <span className="ml-2 text-xs text-gray-400">checking...</span>;
+    }
+    return status.ok ? (
+      <span className="ml-2 text-xs text-green-600">
+        reachable ({status.latencyMs.toFixed(0)} ms)
+      </span>
+    ) : (
+      <span className="ml-2 text-xs text-red-500">
+        unreachable{status.message ? `: ${status.message}` : ""}
+      </span>
+    );
+  };
+
+  const startEditing = (profile?: ConnectionProfile) => {
+    setEditingId(profile ? profile.id : "new");
+    setForm(toFormState(profile));
+    setFormError(null);
+  };
+
+  const handleSave = () => {
+    const timeoutSeconds = Number(form.timeoutSeconds);
+    if (!form.name.trim()) {
+      setFormError("Name is required.");
+      return;
+    }
+    if (form.kind === "http") {
+      try {
+        new URL(form.url);
+      } catch {
+        setFormError("URL must be absolute, e.g. http://localhost:3000.");
+        return;
+      }
+    }
+    if (!Number.isFinite(timeoutSeconds) || timeoutSeconds <= 0) {
+      setFormError("Timeout must be a positive number of seconds.");
+      return;
+    }
+
+    const profile = {
+      name: form.name.trim(),
+      kind: form.kind,
+      url: form.kind === "http" ? form.url.trim() : "",
+      token: form.token.trim() || undefined,
+      headers: parseHeaderLines(form.headers),
+      timeoutMs: Math.round(timeoutSeconds * 1000),
+    };
+
+    if (editingId === "new") {
+      onAdd(profile);
+    } else if (editingId) {
+      onUpdate({ ...profile, id: editingId });
+    }
+    setEditingId(null);
+  };
+
+  const handleOverlayClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (e.target === e.currentTarget) {
+      onClose();
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50"
+      onClick={handleOverlayClick}
+    >
+      <div className="bg-white rounded-2xl shadow-lg max-w-2xl w-full mx-4 md:mx-0 p-6 text-left">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-medium">Connections</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700"
+            title="Close"
+          >
+            &times;
+          </button>
+        </div>
+
+        <ul className="divide-y border rounded">
+          {connections.map((profile) => (
+            <li key={profile.id} className="flex items-center px-3 py-2">
+              <div className="flex-grow">
+                <div className="text-sm font-medium">
+                  {profile.name}
+                  {renderHealth(profile)}
+                </div>
+                <div className="text-xs text-gray-500">
+                  {describeTarget(profile)} | timeout {profile.timeoutMs / 1000}
+                  s{profile.token ? " | token" : ""}
+                </div>
+              </div>
+              <button
+                onClick={() => checkHealth(profile)}
+                className="p-1 text-gray-500 hover:text-gray-700"
+                title="Test Connection"
+              >
+                <GoPlug className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => startEditing(profile)}
+                className="p-1 text-gray-500 hover:text-gray-700"
+                title="Edit Connection"
+              >
+                <Pencil className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => onDelete(profile.id)}
+                className="p-1 text-gray-500 hover:text-red-600 disabled:opacity-30"
+                title="Delete Connection"
+                disabled={connections.length === 1}
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        {editingId ? (
+          <div className="mt-4 space-y-2">
+            <Input
+              placeholder="Name"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+            />
+            <select
+              className="w-full h-9 rounded-md border border-input px-3 text-sm bg-transparent"
+              value={form.kind}
+              onChange={(e) =>
+                setForm({ ...form, kind: e.target.value as ConnectionKind })
+              }
+            >
+              <option value="http">HTTP backend</option>
+              <option value="mock">In-browser mock engine</option>
+            </select>
+            {form.kind === "http" && (
+              <>
+                <Input
+                  placeholder="URL, e.g. http://localhost:3000"
+                  value={form.url}
+                  onChange={(e) => setForm({ ...form, url: e.target.value })}
+                />
+                <Input
+                  placeholder="Token (optional)"
+                  type="password"
+                  value={form.token}
+                  onChange={(e) => setForm({ ...form, token: e.target.value })}
+                />
+                <textarea
+                  className="w-full h-20 rounded-md border border-input px-3 py-1 text-sm font-mono outline-none"
+                  placeholder={"Extra headers, one per line\nX-Team: platform"}
+                  value={form.headers}
+                  onChange={(e) =>
+                    setForm({ ...form, headers: e.target.value })
+                  }
+                />
+              </>
+            )}
+            <Input
+              placeholder="Timeout (seconds)"
+              type="number"
+              min={1}
+              value={form.timeoutSeconds}
+              onChange={(e) =>
+                setForm({ ...form, timeoutSeconds: e.target.value })
+              }
+            />
+            {formError && <p className="text-sm text-red-500">{formError}</p>}
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setEditingId(null)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={handleSave}
+                className="bg-[#0c9abc] text-white hover:bg-[#0c9abc]"
+              >
+                Save
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Button
+            variant="outline"
+            onClick={() => startEditing()}
+            className="mt-4 flex items-center"
+          >
+            <Plus className="mr-2 w-4 h-4" />
+            Add Connection
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
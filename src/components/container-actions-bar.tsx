@@ -0,0 +1,74 @@
+import { Button } from "@/components/ui/button";
+import { ActionTarget, ContainerActions } from "@/hooks/use-container-actions";
+import {
+  CONTAINER_ACTIONS,
+  ContainerAction,
+  DESTRUCTIVE_ACTIONS,
+} from "@/lib/container-actions";
+
+interface ContainerActionsBarProps {
+  actions: ContainerActions;
+  // Containers of the rows on display, with the state each is shown in
+  targets: ActionTarget[];
+}
+
+// Selects the containers of the shown rows and runs an action on all the
+// selected ones at once.
+export function ContainerActionsBar({
+  actions,
+  targets,
+}: ContainerActionsBarProps) {
+  const { selected, setSelected, runAction } = actions;
+  const selectedTargets = targets.filter((target) =>
+    selected.includes(target.name)
+  );
+  const allSelected =
+    targets.length > 0 && selectedTargets.length === targets.length;
+
+  const runOnSelected = (action: ContainerAction) => {
+    if (
+      DESTRUCTIVE_ACTIONS.includes(action) &&
+      !confirm(
+        `${action} ${selectedTargets.length} container${
+          selectedTargets.length !== 1 ? "s" : ""
+        }?`
+      )
+    ) {
+      return;
+    }
+    runAction(action, selectedTargets);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1 text-xs">
+      <label className="flex items-center mr-1 text-gray-600">
+        <input
+          type="checkbox"
+          checked={allSelected}
+          onChange={() =>
+            setSelected(allSelected ? [] : targets.map(({ name }) => name))
+          }
+          className="mr-1"
+          aria-label="Select all containers"
+        />
+        {selectedTargets.length > 0
+          ? `${selectedTargets.length} selected`
+          : "Select all"}
+      </label>
+      {selectedTargets.length > 0 &&
+        CONTAINER_ACTIONS.map((action) => (
+          <Button
+            key={action}
+            onClick={() => runOnSelected(action)}
+            variant="ghost"
+            size="sm"
+            className={`h-7 text-xs ${
+              DESTRUCTIVE_ACTIONS.includes(action) ? "text-red-600" : ""
+            }`}
+          >
+            {action.charAt(0) + action.slice(1).toLowerCase()}
+          </Button>
+        ))}
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import { useState } from "react";
+import { Check, ChevronDown, Clipboard, Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  EXPORT_FORMATS,
+  ExportFormat,
+  downloadFile,
+  exportFileName,
+  formatResultSet,
+} from "@/lib/export";
+import { QueryResult } from "@/lib/query-types";
+
+const FORMATS = Object.keys(EXPORT_FORMATS) as ExportFormat[];
+
+// How long the trigger shows the copy confirmation
+const COPIED_FEEDBACK_MS = 1500;
+
+interface ExportMenuProps {
+  // Called only when exporting, as building the rows may take a while
+  getResult: () => QueryResult;
+  fileBaseName: string; // Usually the tab name
+}
+
+export function ExportMenu({ getResult, fileBaseName }: ExportMenuProps) {
+  const [copied, setCopied] = useState<ExportFormat | null>(null);
+
+  const download = (format: ExportFormat) =>
+    downloadFile(
+      formatResultSet(getResult(), format),
+      exportFileName(fileBaseName, format),
+      EXPORT_FORMATS[format].mimeType
+    );
+
+  const copy = async (format: ExportFormat) => {
+    try {
+      await navigator.clipboard.writeText(formatResultSet(getResult(), format));
+      setCopied(format);
+      setTimeout(() => setCopied(null), COPIED_FEEDBACK_MS);
+    } catch (error) {
+      console.error("Error copying results:", error);
+      alert("Could not copy the results to the clipboard.");
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-7 text-xs">
+          {copied ? (
+            <>
+              <Check className="mr-1 w-3 h-3 text-green-600" />
+              Copied {EXPORT_FORMATS[copied].label}
+            </>
+          ) : (
+            <>
+              <Download className="mr-1 w-3 h-3" />
+              Export
+            </>
+          )}
+          <ChevronDown className="ml-1 w-3 h-3" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Download</DropdownMenuLabel>
+        {FORMATS.map((format) => (
+          <DropdownMenuItem key={format} onSelect={() => download(format)}>
+            <Download className="mr-2 w-4 h-4" />
+            {EXPORT_FORMATS[format].label}
+          </DropdownMenuItem>
+        ))}
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel>Copy to clipboard</DropdownMenuLabel>
+        {FORMATS.map((format) => (
+          <DropdownMenuItem key={format} onSelect={() => copy(format)}>
+            <Clipboard className="mr-2 w-4 h-4" />
+            {EXPORT_FORMATS[format].label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,177 @@
+import { useMemo, useState } from "react";
+import { Ban, CheckCircle2, Trash2 } from "lucide-react";
+import { GoHistory } from "react-icons/go";
+import { FaPlay } from "react-icons/fa6";
+import { VscNewFile } from "react-icons/vsc";
+import { BsExclamationOctagon } from "react-icons/bs";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ConnectionProfile } from "@/lib/connections";
+import {
+  EMPTY_HISTORY_FILTER,
+  HistoryEntry,
+  HistoryFilter,
+  HistoryStatus,
+  MAX_HISTORY_ENTRIES,
+  filterHistory,
+} from "@/lib/history";
+
+interface HistoryPanelProps {
+  history: HistoryEntry[];
+  connections: ConnectionProfile[];
+  onOpenInNewTab: (entry: HistoryEntry) => void;
+  onRerun: (entry: HistoryEntry) => void;
+  onDelete: (id: string) => void;
+  onClear: () => void;
+  onClose: () => void;
+  disabled?: boolean; // Re-run is unavailable while a query is running
+}
+
+export function HistoryPanel({
+  history,
+  connections,
+  onOpenInNewTab,
+  onRerun,
+  onDelete,
+  onClear,
+  onClose,
+  disabled,
+}: HistoryPanelProps) {
+  const [filter, setFilter] = useState<HistoryFilter>(EMPTY_HISTORY_FILTER);
+
+  const visibleEntries = useMemo(
+    () => filterHistory(history, filter),
+    [history, filter]
+  );
+
+  return (
+    <div className="flex flex-col w-96 flex-shrink-0 border-l border-gray-200 p-2 text-left max-h-screen">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="flex items-center text-sm font-medium">
+          <GoHistory className="mr-2 w-4 h-4" />
+          History
+          <span className="ml-2 text-xs text-gray-400">
+            {history.length}/{MAX_HISTORY_ENTRIES}
+          </span>
+        </h2>
+        <button
+          onClick={onClose}
+          className="text-gray-500 hover:text-gray-700"
+          title="Close History"
+        >
+          &times;
+        </button>
+      </div>
+
+      <Input
+        placeholder="Search queries..."
+        value={filter.search}
+        onChange={(e) => setFilter({ ...filter, search: e.target.value })}
+      />
+      <div className="flex gap-2 mt-2">
+        <select
+          className="h-8 flex-1 rounded-md border border-input px-2 text-xs bg-transparent"
+          value={filter.status}
+          onChange={(e) =>
+            setFilter({
+              ...filter,
+              status: e.target.value as HistoryStatus | "all",
+            })
+          }
+        >
+          <option value="all">All statuses</option>
+          <option value="success">Succeeded</option>
+          <option value="error">Failed</option>
+          <option value="cancelled">Cancelled</option>
+        </select>
+        <select
+          className="h-8 flex-1 rounded-md border border-input px-2 text-xs bg-transparent"
+          value={filter.connectionId}
+          onChange={(e) =>
+            setFilter({ ...filter, connectionId: e.target.value })
+          }
+        >
+          <option value="all">All connections</option>
+          {connections.map((profile) => (
+            <option key={profile.id} value={profile.id}>
+              {profile.name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <ul className="mt-2 flex-grow overflow-auto divide-y border rounded">
+        {visibleEntries.length === 0 && (
+          <li className="p-3 text-xs text-gray-500">
+            {history.length === 0
+              ? "Executed queries will show up here."
+              : "No queries match the current filters."}
+          </li>
+        )}
+        {visibleEntries.map((entry) => (
+          <li key={entry.id} className="p-2">
+            <div className="flex items-start">
+              {entry.status === "error" ? (
+                <BsExclamationOctagon className="mt-1 mr-2 w-3 h-3 flex-shrink-0 text-red-500" />
+              ) : entry.status === "cancelled" ? (
+                <Ban className="mt-1 mr-2 w-3 h-3 flex-shrink-0 text-gray-400" />
+              ) : (
+                <CheckCircle2 className="mt-1 mr-2 w-3 h-3 flex-shrink-0 text-green-600" />
+              )}
+              <pre
+                className="flex-grow font-mono text-xs whitespace-pre-wrap break-all line-clamp-3"
+                title={entry.query}
+              >
+                {entry.query}
+              </pre>
+            </div>
+            {entry.status === "error" && entry.errorMessage && (
+              <p className="ml-5 mt-1 text-xs text-red-500 truncate">
+                {entry.errorMessage}
+              </p>
+            )}
+            <div className="flex items-center ml-5 mt-1 text-xs text-gray-400">
+              <span className="flex-grow">
+                {new Date(entry.executedAt).toLocaleString()} |{" "}
+                {entry.connectionName} | {entry.durationMs.toFixed(0)} ms
+                {entry.rowCount !== null ? ` | ${entry.rowCount} rows` : ""}
+              </span>
+              <button
+                onClick={() => onRerun(entry)}
+                className="p-1 hover:text-gray-700 disabled:opacity-30"
+                title="Re-run"
+                disabled={disabled}
+              >
+                <FaPlay className="w-3 h-3" />
+              </button>
+              <button
+                onClick={() => onOpenInNewTab(entry)}
+                className="p-1 hover:text-gray-700"
+                title="Open in New Tab"
+              >
+                <VscNewFile className="w-3 h-3" />
+              </button>
+              <button
+                onClick={() => onDelete(entry.id)}
+                className="p-1 hover:text-red-600"
+                title="Delete from History"
+              >
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      <Button
+        variant="outline"
+        size="sm"
+        className="mt-2"
+        onClick={onClear}
+        disabled={history.length === 0}
+      >
+        Clear History
+      </Button>
+    </div>
+  );
+}
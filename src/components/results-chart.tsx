@@ -0,0 +1,456 @@
+import { useRef } from "react";
+import { BarChart3, Download, LineChart, PieChart } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  CHART_KINDS,
+  ChartConfig,
+  ChartData,
+  ChartKind,
+  chartData,
+  isNumericColumn,
+  MAX_CHART_POINTS,
+  niceTicks,
+  plottedColumns,
+  serializeSvg,
+  svgToPng,
+} from "@/lib/chart";
+import { downloadFile, safeFileName } from "@/lib/export";
+import { QueryResult } from "@/lib/query-types";
+
+const WIDTH = 800;
+const HEIGHT = 360;
+const MARGIN = { top: 16, right: 16, bottom: 64, left: 64 };
+const LEGEND_HEIGHT = 24;
+// Past this many points, only every n-th x label is written
+const MAX_X_LABELS = 20;
+const MAX_LABEL_LENGTH = 14;
+const MAX_PIE_LEGEND_ITEMS = 12;
+
+// Written as SVG attributes rather than classes, so saved files look the same
+const COLORS = [
+  "#0c9abc",
+  "#f59e0b",
+  "#10b981",
+  "#ef4444",
+  "#8b5cf6",
+  "#ec4899",
+  "#64748b",
+  "#84cc16",
+];
+const AXIS_COLOR = "#9ca3af";
+const GRID_COLOR = "#e5e7eb";
+const TEXT_COLOR = "#374151";
+const FONT = "ui-sans-serif, system-ui, sans-serif";
+
+const KIND_ICONS: Record<ChartKind, typeof BarChart3> = {
+  bar: BarChart3,
+  line: LineChart,
+  pie: PieChart,
+};
+
+const tickFormat = new Intl.NumberFormat(undefined, {
+  notation: "compact",
+  maximumFractionDigits: 2,
+});
+const valueFormat = new Intl.NumberFormat(undefined, {
+  maximumFractionDigits: 2,
+});
+
+const shorten = (label: string) =>
+  label.length > MAX_LABEL_LENGTH
+    ? `${label.slice(0, MAX_LABEL_LENGTH - 1)}…`
+    : label;
+
+const color = (index: number) => COLORS[index % COLORS.length];
+
+// Tooltip of a bar, point or slice
+const describe = (label: string, value: number) =>
+  `${label}: ${valueFormat.format(value)}`;
+
+const percent = (value: number, total: number) =>
+  `${((value / total) * 100).toFixed(1)}%`;
+
+// Path through the points, broken where a row has no number
+const linePath = (
+  values: (number | null)[],
+  x: (index: number) => number,
+  y: (value: number) => number
+) =>
+  values
+    .map((value, index) => {
+      if (value === null) return "";
+      const command = index === 0 || values[index - 1] === null ? "M" : "L";
+      return `${command}${x(index)},${y(value)}`;
+    })
+    .join(" ");
+
+function Legend({ names }: { names: string[] }) {
+  let x = MARGIN.left;
+  return (
+    <g fontSize={12} fill={TEXT_COLOR}>
+      {names.map((name, index) => {
+        const itemX = x;
+        x += 24 + Math.min(name.length, MAX_LABEL_LENGTH) * 7;
+        return (
+          <g key={index} transform={`translate(${itemX}, ${MARGIN.top})`}>
+            <rect width={10} height={10} y={1} fill={color(index)} />
+            <text x={14} y={10}>
+              {shorten(name)}
+            </text>
+          </g>
+        );
+      })}
+    </g>
+  );
+}
+
+// Bars or lines over the rows, with a value axis starting at zero
+function CartesianChart({ data, kind }: { data: ChartData; kind: ChartKind }) {
+  const top = MARGIN.top + (data.series.length > 1 ? LEGEND_HEIGHT : 0);
+  const plotWidth = WIDTH - MARGIN.left - MARGIN.right;
+  const plotHeight = HEIGHT - top - MARGIN.bottom;
+  const values = data.series
+    .flatMap((series) => series.values)
+    .filter((value): value is number => value !== null);
+  const ticks = niceTicks(Math.min(0, ...values), Math.max(0, ...values));
+  const low = ticks[0];
+  const high = ticks[ticks.length - 1];
+  const y = (value: number) =>
+    top + plotHeight - ((value - low) / (high - low)) * plotHeight;
+  const band = plotWidth / Math.max(data.labels.length, 1);
+  const center = (index: number) => MARGIN.left + band * (index + 0.5);
+  const labelStep = Math.ceil(data.labels.length / MAX_X_LABELS);
+  const rotateLabels = data.labels.length > 8;
+  const barWidth = (band * 0.8) / Math.max(data.series.length, 1);
+
+  return (
+    <>
+      {data.series.length > 1 && (
+        <Legend names={data.series.map((series) => series.name)} />
+      )}
+      <g fontSize={11} fill={TEXT_COLOR}>
+        {ticks.map((tick) => (
+          <g key={tick}>
+            <line
+              x1={MARGIN.left}
+              x2={WIDTH - MARGIN.right}
+              y1={y(tick)}
+              y2={y(tick)}
+              stroke={tick === 0 ? AXIS_COLOR : GRID_COLOR}
+            />
+            <text x={MARGIN.left - 6} y={y(tick) + 4} textAnchor="end">
+              {tickFormat.format(tick)}
+            </text>
+          </g>
+        ))}
+        {data.labels.map((label, index) =>
+          index % labelStep === 0 ? (
+            <text
+              key={index}
+              x={center(index)}
+              y={top + plotHeight + 16}
+              textAnchor={rotateLabels ? "end" : "middle"}
+              transform={
+                rotateLabels
+                  ? `rotate(-35, ${center(index)}, ${top + plotHeight + 16})`
+                  : undefined
+              }
+            >
+              {shorten(label)}
+            </text>
+          ) : null
+        )}
+      </g>
+      {data.series.map((series, seriesIndex) =>
+        kind === "bar" ? (
+          <g key={seriesIndex} fill={color(seriesIndex)}>
+            {series.values.map((value, index) =>
+              value === null ? null : (
+                <rect
+                  key={index}
+                  x={center(index) - (band * 0.8) / 2 + barWidth * seriesIndex}
+                  y={Math.min(y(value), y(0))}
+                  width={Math.max(barWidth - 1, 1)}
+                  height={Math.abs(y(value) - y(0))}
+                >
+                  <title>{describe(data.labels[index], value)}</title>
+                </rect>
+              )
+            )}
+          </g>
+        ) : (
+          <g key={seriesIndex}>
+            <path
+              d={linePath(series.values, center, y)}
+              fill="none"
+              stroke={color(seriesIndex)}
+              strokeWidth={2}
+            />
+            {data.labels.length <= 50 &&
+              series.values.map((value, index) =>
+                value === null ? null : (
+                  <circle
+                    key={index}
+                    cx={center(index)}
+                    cy={y(value)}
+                    r={3}
+                    fill={color(seriesIndex)}
+                  >
+                    <title>{describe(data.labels[index], value)}</title>
+                  </circle>
+                )
+              )}
+          </g>
+        )
+      )}
+    </>
+  );
+}
+
+// Shares of the first value column; rows without a positive value are left
+// out, as they have no share to show.
+function PieChartView({ data }: { data: ChartData }) {
+  const series = data.series[0];
+  const slices = data.labels
+    .map((label, index) => ({ label, value: series.values[index] ?? 0 }))
+    .filter((slice) => slice.value > 0);
+  const total = slices.reduce((sum, slice) => sum + slice.value, 0);
+  const radius = (HEIGHT - MARGIN.top * 2) / 2;
+  const cx = MARGIN.left + radius;
+  const cy = HEIGHT / 2;
+  const legendX = cx + radius + 40;
+  if (total === 0) {
+    return (
+      <text x={WIDTH / 2} y={cy} textAnchor="middle" fill={TEXT_COLOR}>
+        No positive values to show
+      </text>
+    );
+  }
+
+  let angle = -Math.PI / 2;
+  const point = (a: number) =>
+    `${cx + radius * Math.cos(a)},${cy + radius * Math.sin(a)}`;
+  return (
+    <>
+      {slices.map((slice, index) => {
+        const start = angle;
+        const sweep = (slice.value / total) * Math.PI * 2;
+        angle += sweep;
+        const share = percent(slice.value, total);
+        const title = `${describe(slice.label, slice.value)} (${share})`;
+        return slices.length === 1 ? (
+          <circle key={index} cx={cx} cy={cy} r={radius} fill={color(0)}>
+            <title>{title}</title>
+          </circle>
+        ) : (
+          <path
+            key={index}
+            d={[
+              `M${cx},${cy}`,
+              `L${point(start)}`,
+              `A${radius},${radius} 0 ${sweep > Math.PI ? 1 : 0} 1`,
+              `${point(angle)} Z`,
+            ].join(" ")}
+            fill={color(index)}
+            stroke="#ffffff"
+          >
+            <title>{title}</title>
+          </path>
+        );
+      })}
+      <g fontSize={12} fill={TEXT_COLOR}>
+        {slices.slice(0, MAX_PIE_LEGEND_ITEMS).map((slice, index) => (
+          <g
+            key={index}
+            transform={`translate(${legendX}, ${MARGIN.top + index * 22})`}
+          >
+            <rect width={10} height={10} y={2} fill={color(index)} />
+            <text x={16} y={11}>
+              {describe(shorten(slice.label), slice.value)} (
+              {percent(slice.value, total)})
+            </text>
+          </g>
+        ))}
+        {slices.length > MAX_PIE_LEGEND_ITEMS && (
+          <text x={legendX} y={MARGIN.top + MAX_PIE_LEGEND_ITEMS * 22 + 11}>
+            and {slices.length - MAX_PIE_LEGEND_ITEMS} more
+          </text>
+        )}
+      </g>
+    </>
+  );
+}
+
+interface ResultsChartProps {
+  result: QueryResult; // Rows in display order, so filters and sort apply
+  config: ChartConfig;
+  onConfigChange: (config: ChartConfig) => void;
+  fileBaseName: string; // Usually the tab name
+}
+
+// Plots the result as bars, lines or a pie, with controls for the kind of
+// chart and the columns it draws on, and saving it as SVG or PNG.
+export function ResultsChart({
+  result,
+  config,
+  onConfigChange,
+  fileBaseName,
+}: ResultsChartProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const { columns } = result;
+  const data = chartData(result, config);
+  const hasValues = data.series.length > 0 && data.labels.length > 0;
+
+  const isPie = config.kind === "pie";
+  const plotted = plottedColumns(columns, config);
+
+  // A pie takes a single value column, so picking one replaces the other
+  const toggleValueColumn = (index: number) =>
+    onConfigChange({
+      ...config,
+      valueColumns: isPie
+        ? [index]
+        : config.valueColumns.includes(index)
+          ? config.valueColumns.filter((column) => column !== index)
+          : [...config.valueColumns, index].sort((a, b) => a - b),
+    });
+
+  const saveSvg = () => {
+    if (!svgRef.current) return;
+    downloadFile(
+      serializeSvg(svgRef.current),
+      safeFileName(fileBaseName, "svg"),
+      "image/svg+xml"
+    );
+  };
+
+  const savePng = async () => {
+    if (!svgRef.current) return;
+    try {
+      downloadFile(
+        await svgToPng(svgRef.current),
+        safeFileName(fileBaseName, "png"),
+        "image/png"
+      );
+    } catch (error) {
+      console.error("Error saving chart:", error);
+      alert("Could not save the chart as PNG.");
+    }
+  };
+
+  return (
+    <div className="p-2 text-xs">
+      <div className="flex flex-wrap items-center gap-2 mb-2">
+        <div className="flex items-center">
+          {CHART_KINDS.map((kind) => {
+            const Icon = KIND_ICONS[kind];
+            return (
+              <Button
+                key={kind}
+                onClick={() => onConfigChange({ ...config, kind })}
+                variant={config.kind === kind ? "secondary" : "ghost"}
+                size="sm"
+                className="h-7 text-xs capitalize"
+                aria-pressed={config.kind === kind}
+              >
+                <Icon className="mr-1 w-3 h-3" />
+                {kind}
+              </Button>
+            );
+          })}
+        </div>
+        <label className="flex items-center text-gray-600">
+          Labels
+          <select
+            value={config.labelColumn ?? ""}
+            onChange={(e) =>
+              onConfigChange({
+                ...config,
+                labelColumn:
+                  e.target.value === "" ? null : Number(e.target.value),
+              })
+            }
+            className="ml-1 h-7 px-1 border rounded-sm bg-transparent"
+          >
+            <option value="">Row number</option>
+            {columns.map((column, index) => (
+              <option key={index} value={index}>
+                {column.name || `Column ${index + 1}`}
+              </option>
+            ))}
+          </select>
+        </label>
+        <span className="flex flex-wrap items-center gap-2 text-gray-600">
+          {isPie ? "Value" : "Values"}
+          {columns.map((column, index) =>
+            isNumericColumn(column) ? (
+              <label key={index} className="flex items-center">
+                <input
+                  type={isPie ? "radio" : "checkbox"}
+                  checked={plotted.includes(index)}
+                  onChange={() => toggleValueColumn(index)}
+                  className="mr-1"
+                />
+                {column.name || `Column ${index + 1}`}
+              </label>
+            ) : null
+          )}
+        </span>
+        <div className="flex items-center ml-auto">
+          <Button
+            onClick={saveSvg}
+            disabled={!hasValues}
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs"
+          >
+            <Download className="mr-1 w-3 h-3" />
+            SVG
+          </Button>
+          <Button
+            onClick={savePng}
+            disabled={!hasValues}
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs"
+          >
+            <Download className="mr-1 w-3 h-3" />
+            PNG
+          </Button>
+        </div>
+      </div>
+      {hasValues ? (
+        <svg
+          ref={svgRef}
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          width={WIDTH}
+          height={HEIGHT}
+          className="max-w-full h-auto"
+          fontFamily={FONT}
+          role="img"
+          aria-label={`${config.kind} chart of ${data.series
+            .map((series) => series.name)
+            .join(", ")}`}
+        >
+          <rect width={WIDTH} height={HEIGHT} fill="#ffffff" />
+          {isPie ? (
+            <PieChartView data={data} />
+          ) : (
+            <CartesianChart data={data} kind={config.kind} />
+          )}
+        </svg>
+      ) : (
+        <p className="py-8 text-center text-gray-500">
+          {data.labels.length === 0
+            ? "No rows to chart."
+            : "Pick at least one value column to chart."}
+        </p>
+      )}
+      {data.truncated && (
+        <p className="mt-1 text-gray-500">
+          Showing the first {MAX_CHART_POINTS} rows.
+        </p>
+      )}
+    </div>
+  );
+}
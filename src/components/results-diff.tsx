@@ -0,0 +1,155 @@
+import { useState } from "react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { cellText } from "@/lib/cells";
+import { DiffRow, DiffStatus, ResultDiff } from "@/lib/result-changes";
+
+// Rows past this are counted in the summary but not rendered
+const MAX_DIFF_ROWS = 1000;
+
+const STATUS_MARKS: Record<DiffStatus, string> = {
+  added: "+",
+  removed: "−",
+  changed: "~",
+  unchanged: "",
+};
+
+const STATUS_CLASSES: Record<DiffStatus, string> = {
+  added: "bg-green-50",
+  removed: "bg-red-50 text-gray-500",
+  changed: "",
+  unchanged: "",
+};
+
+interface ResultsDiffProps {
+  diff: ResultDiff;
+  keyColumn: string;
+  keyColumns: string[]; // Columns both results have, to key rows on
+  onKeyColumnChange: (keyColumn: string) => void;
+  beforeLabel: string;
+  afterLabel: string;
+}
+
+function DiffCell({ row, index }: { row: DiffRow; index: number }) {
+  const before = cellText(row.before?.[index]);
+  const after = cellText(row.after?.[index]);
+  if (!row.changed.has(index)) {
+    return <TableCell className="py-1">{row.after ? after : before}</TableCell>;
+  }
+  return (
+    <TableCell className="py-1 bg-amber-100">
+      <span className="text-red-700 line-through">{before}</span>
+      <span className="mx-1 text-gray-400">→</span>
+      <span className="text-green-700">{after}</span>
+    </TableCell>
+  );
+}
+
+// Rows added to, removed from and changed between two results, with the
+// changed cells showing the old value next to the new one.
+export function ResultsDiff({
+  diff,
+  keyColumn,
+  keyColumns,
+  onKeyColumnChange,
+  beforeLabel,
+  afterLabel,
+}: ResultsDiffProps) {
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const { columns, counts } = diff;
+  const rows = showUnchanged
+    ? diff.rows
+    : diff.rows.filter((row) => row.status !== "unchanged");
+
+  return (
+    <div className="p-2 text-xs">
+      <div className="flex flex-wrap items-center gap-3 mb-2 text-gray-600">
+        <span>
+          <span className="font-medium">{beforeLabel}</span>
+          <span className="mx-1 text-gray-400">→</span>
+          <span className="font-medium">{afterLabel}</span>
+        </span>
+        <label className="flex items-center">
+          Match rows on
+          <select
+            value={keyColumn}
+            onChange={(e) => onKeyColumnChange(e.target.value)}
+            className="ml-1 h-7 px-1 border rounded-sm bg-transparent"
+          >
+            {keyColumns.map((name) => (
+              <option key={name} value={name}>
+                {name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <span>
+          <span className="text-green-700">{counts.added} added</span>,{" "}
+          <span className="text-red-700">{counts.removed} removed</span>,{" "}
+          <span className="text-amber-700">{counts.changed} changed</span>,{" "}
+          {counts.unchanged} unchanged
+        </span>
+        <label className="flex items-center">
+          <input
+            type="checkbox"
+            checked={showUnchanged}
+            onChange={(e) => setShowUnchanged(e.target.checked)}
+            className="mr-1"
+          />
+          Show unchanged rows
+        </label>
+      </div>
+      {rows.length === 0 ? (
+        <p className="p-2 text-gray-500">
+          {diff.rows.length === 0
+            ? "Both results are empty."
+            : "No differences."}
+        </p>
+      ) : (
+        <div className="max-h-96 overflow-auto">
+          <Table className="table-auto w-full">
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-6" />
+                {columns.map((name, index) => (
+                  <TableHead
+                    key={index}
+                    className="font-normal text-left text-black whitespace-nowrap"
+                  >
+                    {name}
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.slice(0, MAX_DIFF_ROWS).map((row, rowIndex) => (
+                <TableRow key={rowIndex} className={STATUS_CLASSES[row.status]}>
+                  <TableCell
+                    className="py-1 font-mono text-gray-500"
+                    title={row.status}
+                  >
+                    {STATUS_MARKS[row.status]}
+                  </TableCell>
+                  {columns.map((_, index) => (
+                    <DiffCell key={index} row={row} index={index} />
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          {rows.length > MAX_DIFF_ROWS && (
+            <p className="p-2 text-gray-500">
+              Showing the first {MAX_DIFF_ROWS} of {rows.length} rows.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
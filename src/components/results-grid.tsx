@@ -0,0 +1,685 @@
+import {
+  DragEvent,
+  MouseEvent,
+  useCallback,
+  useEffect,
+  useLayoutEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import { ChevronUp, ChevronDown as ChevronDownIcon, X } from "lucide-react";
+import { GoTerminal } from "react-icons/go";
+import { VscSymbolKey } from "react-icons/vsc";
+import { RxComponentBoolean, RxResume } from "react-icons/rx";
+import { IoIosRemoveCircleOutline } from "react-icons/io";
+import { VscDebugRestart } from "react-icons/vsc";
+import { CiMedicalClipboard } from "react-icons/ci";
+import {
+  FaComputer,
+  FaRegCirclePlay,
+  FaRegCircleStop,
+  FaRegCirclePause,
+  FaRegCircleXmark,
+} from "react-icons/fa6";
+import { TiSortNumerically } from "react-icons/ti";
+import { BsClipboardData } from "react-icons/bs";
+import {
+  BooleanCell,
+  CommandOutputCell,
+  CommandOutputDetail,
+  ContainerCell,
+  JsonCell,
+  JsonDetail,
+  NumberCell,
+  TextCell,
+} from "@/components/cell-renderers";
+import { Input } from "@/components/ui/input";
+import { CellRenderer, getCellRenderer } from "@/lib/cell-renderers";
+import {
+  ColumnFilter,
+  compileRegex,
+  emptyFilter,
+  filterKindFor,
+} from "@/lib/filter";
+import {
+  GridViewState,
+  MIN_COLUMN_WIDTH,
+  autoSizeColumns,
+  moveColumn,
+  shownColumns,
+} from "@/lib/grid-view";
+import {
+  getColumnOffsets,
+  getColumnWindow,
+  getRowWindow,
+} from "@/lib/grid-window";
+import { ResultSet } from "@/lib/protocol";
+import { ChangedCells } from "@/lib/result-changes";
+import { Column, ColumnType } from "@/lib/query-types";
+import { toggleSort } from "@/lib/sort";
+
+const HEADER_HEIGHT = 40;
+const FILTER_ROW_HEIGHT = 36;
+const ROW_HEIGHT = 36;
+// The scroll position is saved once scrolling pauses, not on every event
+const SCROLL_SAVE_DELAY_MS = 200;
+
+const getTypeIcon = (type: string) => {
+  switch (type) {
+    case ColumnType.NUMBER:
+    case ColumnType.INT:
+      return <TiSortNumerically className="text-black w-5 h-5" />;
+    case ColumnType.STRING:
+      return <VscSymbolKey className="text-black w-5 h-5" />;
+    case ColumnType.BOOLEAN:
+      return <RxComponentBoolean className="text-black w-5 h-5" />;
+    case ColumnType.CONTAINER:
+      return <FaComputer className="text-black w-5 h-5" />;
+    case ColumnType.METADATA:
+      return <BsClipboardData className="text-black w-5 h-5" />;
+    case ColumnType.RUN_CMD:
+      return <GoTerminal className="text-black w-5 h-5" />;
+    case ColumnType.START:
+      return <FaRegCirclePlay className="text-black w-5 h-5" />;
+    case ColumnType.STOP:
+      return <FaRegCircleStop className="text-black w-5 h-5" />;
+    case ColumnType.PAUSE:
+      return <FaRegCirclePause className="text-black w-5 h-5" />;
+    case ColumnType.UNPAUSE:
+      return <RxResume className="text-black w-5 h-5" />;
+    case ColumnType.REMOVE:
+      return <IoIosRemoveCircleOutline className="text-black w-5 h-5" />;
+    case ColumnType.RESTART:
+      return <VscDebugRestart className="text-black w-5 h-5" />;
+    case ColumnType.KILL:
+      return <FaRegCircleXmark className="text-black w-5 h-5" />;
+    case ColumnType.COUNT:
+      return <CiMedicalClipboard className="text-black w-5 h-5" />;
+    case ColumnType.SUM:
+      return <CiMedicalClipboard className="text-black w-5 h-5" />;
+    case ColumnType.LENGTH:
+      return <CiMedicalClipboard className="text-black w-5 h-5" />;
+    default:
+      return null;
+  }
+};
+
+const NUMBER_RENDERER: CellRenderer = { Cell: NumberCell };
+
+const BUILT_IN_RENDERERS: Partial<Record<ColumnType, CellRenderer>> = {
+  [ColumnType.NUMBER]: NUMBER_RENDERER,
+  [ColumnType.INT]: NUMBER_RENDERER,
+  [ColumnType.COUNT]: NUMBER_RENDERER,
+  [ColumnType.SUM]: NUMBER_RENDERER,
+  [ColumnType.LENGTH]: NUMBER_RENDERER,
+  [ColumnType.BOOLEAN]: { Cell: BooleanCell },
+  [ColumnType.CONTAINER]: { Cell: ContainerCell },
+  [ColumnType.METADATA]: { Cell: JsonCell, Detail: JsonDetail },
+  [ColumnType.RUN_CMD]: {
+    Cell: CommandOutputCell,
+    Detail: CommandOutputDetail,
+  },
+};
+
+const TEXT_RENDERER: CellRenderer = { Cell: TextCell };
+
+// A registered renderer wins over the built-in one; types with neither are
+// shown as plain text.
+const rendererFor = (type: ColumnType): CellRenderer =>
+  getCellRenderer(type) ?? BUILT_IN_RENDERERS[type] ?? TEXT_RENDERER;
+
+const DETAIL_MIN_WIDTH = 320;
+
+const FILTER_INPUT_CLASS = "h-6 px-1 text-xs rounded-sm";
+
+interface FilterInputProps {
+  column: Column;
+  filter: ColumnFilter;
+  onChange: (filter: ColumnFilter) => void;
+}
+
+// Input suited to the column type: text or pattern, number range, or a
+// true/false choice.
+function FilterInput({ column, filter, onChange }: FilterInputProps) {
+  switch (filter.kind) {
+    case "text": {
+      const isInvalid = filter.regex && compileRegex(filter.query) === null;
+      return (
+        <div className="flex items-center w-full">
+          <Input
+            value={filter.query}
+            onChange={(e) => onChange({ ...filter, query: e.target.value })}
+            placeholder={filter.regex ? "Pattern" : "Contains"}
+            aria-label={`Filter ${column.name}`}
+            className={`${FILTER_INPUT_CLASS} ${
+              isInvalid ? "border-red-400" : ""
+            }`}
+            title={isInvalid ? "Invalid regular expression" : undefined}
+          />
+          <button
+            onClick={() => onChange({ ...filter, regex: !filter.regex })}
+            className={`ml-1 px-1 rounded font-mono text-xs ${
+              filter.regex
+                ? "bg-[#0c9abc]/10 text-[#0c9abc]"
+                : "text-gray-400 hover:text-gray-600"
+            }`}
+            title="Match a regular expression"
+            aria-pressed={filter.regex}
+          >
+            .*
+          </button>
+        </div>
+      );
+    }
+    case "range":
+      return (
+        <div className="flex items-center w-full gap-1">
+          <Input
+            type="number"
+            value={filter.min}
+            onChange={(e) => onChange({ ...filter, min: e.target.value })}
+            placeholder="Min"
+            aria-label={`Minimum ${column.name}`}
+            className={FILTER_INPUT_CLASS}
+          />
+          <Input
+            type="number"
+            value={filter.max}
+            onChange={(e) => onChange({ ...filter, max: e.target.value })}
+            placeholder="Max"
+            aria-label={`Maximum ${column.name}`}
+            className={FILTER_INPUT_CLASS}
+          />
+        </div>
+      );
+    case "boolean":
+      return (
+        <select
+          value={filter.value}
+          onChange={(e) =>
+            onChange({
+              ...filter,
+              value: e.target.value as "true" | "false" | "",
+            })
+          }
+          aria-label={`Filter ${column.name}`}
+          className={`${FILTER_INPUT_CLASS} w-full border bg-transparent`}
+        >
+          <option value="">Any</option>
+          <option value="true">true</option>
+          <option value="false">false</option>
+        </select>
+      );
+  }
+}
+
+interface ResultsGridProps {
+  resultSet: ResultSet;
+  rows: ResultSet["rows"]; // In display order, which may differ from the result's
+  view: GridViewState; // Already matched to the result's columns
+  onViewChange: (update: Partial<GridViewState>) => void;
+  activeRow?: number | null; // Highlighted and kept in view, e.g. while inspected
+  onRowClick?: (rowIndex: number) => void;
+  changedCells?: ChangedCells; // Highlighted, e.g. what changed since a rerun
+}
+
+// Renders only the rows and columns inside the scrolled viewport, so result
+// sets of any size stay responsive. Rows have a fixed height and cells are
+// cut off with an ellipsis instead of wrapping; values too large for a row
+// open in full under their cell when clicked. Sorting, resizing, moving
+// columns and scrolling are reported through `onViewChange`.
+export function ResultsGrid({
+  resultSet,
+  rows,
+  view,
+  onViewChange,
+  activeRow = null,
+  onRowClick,
+  changedCells,
+}: ResultsGridProps) {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [viewport, setViewport] = useState({
+    scrollTop: view.scrollTop,
+    scrollLeft: view.scrollLeft,
+    width: 0,
+    height: 0,
+  });
+  // Live width while a resize handle is dragged; saved on release
+  const [resizing, setResizing] = useState<{
+    column: number;
+    width: number;
+  } | null>(null);
+  // Column whose header is being dragged to a new place
+  const [dragged, setDragged] = useState<number | null>(null);
+  // Cell shown in full. The row is kept rather than its position, so the
+  // detail goes away instead of moving to another row on sorting or
+  // filtering.
+  const [expanded, setExpanded] = useState<{
+    row: ResultSet["rows"][number];
+    column: number;
+  } | null>(null);
+
+  const initialScroll = useRef({
+    scrollTop: view.scrollTop,
+    scrollLeft: view.scrollLeft,
+  });
+  const latestOnViewChange = useRef(onViewChange);
+  const pendingScroll = useRef<{
+    position: { scrollTop: number; scrollLeft: number };
+    timeoutId: ReturnType<typeof setTimeout>;
+  } | null>(null);
+
+  useEffect(() => {
+    latestOnViewChange.current = onViewChange;
+  }, [onViewChange]);
+
+  const measure = useCallback(() => {
+    const element = scrollRef.current;
+    if (!element) return;
+    setViewport({
+      scrollTop: element.scrollTop,
+      scrollLeft: element.scrollLeft,
+      width: element.clientWidth,
+      height: element.clientHeight,
+    });
+  }, []);
+
+  useLayoutEffect(() => {
+    const element = scrollRef.current;
+    if (!element) return;
+    element.scrollTop = initialScroll.current.scrollTop;
+    element.scrollLeft = initialScroll.current.scrollLeft;
+    measure();
+  }, [measure]);
+
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(measure);
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [measure]);
+
+  // Saves a scroll position still waiting for its delay when the grid goes
+  // away, e.g. on switching tabs.
+  useEffect(() => {
+    const pending = pendingScroll;
+    const onViewChangeRef = latestOnViewChange;
+    return () => {
+      if (!pending.current) return;
+      clearTimeout(pending.current.timeoutId);
+      onViewChangeRef.current(pending.current.position);
+    };
+  }, []);
+
+  const headerHeight =
+    HEADER_HEIGHT + (view.showFilters ? FILTER_ROW_HEIGHT : 0);
+
+  // Scrolls the active row into view when it changes, e.g. on stepping
+  // through the rows from the keyboard.
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (!element || activeRow === null) return;
+    const top = activeRow * ROW_HEIGHT;
+    const height = element.clientHeight - headerHeight;
+    if (top < element.scrollTop) {
+      element.scrollTop = top;
+    } else if (top + ROW_HEIGHT > element.scrollTop + height) {
+      element.scrollTop = top + ROW_HEIGHT - height;
+    }
+  }, [activeRow, headerHeight]);
+
+  const handleScroll = () => {
+    const element = scrollRef.current;
+    if (!element) return;
+    measure();
+    if (pendingScroll.current) clearTimeout(pendingScroll.current.timeoutId);
+    const position = {
+      scrollTop: element.scrollTop,
+      scrollLeft: element.scrollLeft,
+    };
+    pendingScroll.current = {
+      position,
+      timeoutId: setTimeout(() => {
+        pendingScroll.current = null;
+        latestOnViewChange.current(position);
+      }, SCROLL_SAVE_DELAY_MS),
+    };
+  };
+
+  const { columns } = resultSet;
+  const autoWidths = useMemo(() => autoSizeColumns(resultSet), [resultSet]);
+  const widths = columns.map((_, index) =>
+    resizing?.column === index
+      ? resizing.width
+      : (view.columnWidths[index] ?? autoWidths[index])
+  );
+  const shown = shownColumns(view, columns.length);
+  const offsets = getColumnOffsets(shown.map((index) => widths[index]));
+  const totalWidth = offsets[offsets.length - 1];
+  const columnWindow = getColumnWindow(
+    viewport.scrollLeft,
+    viewport.width,
+    offsets
+  );
+  const rowWindow = getRowWindow(
+    viewport.scrollTop,
+    Math.max(viewport.height - headerHeight, 0),
+    rows.length,
+    ROW_HEIGHT
+  );
+  const visibleColumns = shown
+    .slice(columnWindow.start, columnWindow.end)
+    .map((index, i) => ({
+      column: columns[index],
+      index,
+      position: columnWindow.start + i,
+    }));
+
+  const detail = (() => {
+    if (!expanded) return null;
+    const rowIndex = rows.indexOf(expanded.row);
+    const position = shown.indexOf(expanded.column);
+    const { Detail } = rendererFor(columns[expanded.column]?.type);
+    if (rowIndex === -1 || position === -1 || !Detail) return null;
+    return { ...expanded, rowIndex, position, Detail };
+  })();
+
+  // Clicks on controls inside a cell, menus opened from it included, are
+  // theirs alone
+  const clickRow = (e: MouseEvent, rowIndex: number) => {
+    const target = e.target as HTMLElement;
+    if (target.closest("button, input, select, a, [role='menuitem']")) return;
+    onRowClick?.(rowIndex);
+  };
+
+  const borderFor = (position: number, color: string) =>
+    position !== shown.length - 1 ? `border-r ${color}` : "";
+
+  const startResize = (e: MouseEvent, column: number) => {
+    e.preventDefault();
+    const startX = e.clientX;
+    const startWidth = widths[column];
+    let width = startWidth;
+
+    const handleMove = (event: globalThis.MouseEvent) => {
+      width = Math.max(startWidth + event.clientX - startX, MIN_COLUMN_WIDTH);
+      setResizing({ column, width });
+    };
+    const handleUp = () => {
+      document.removeEventListener("mousemove", handleMove);
+      document.removeEventListener("mouseup", handleUp);
+      setResizing(null);
+      onViewChange({
+        columnWidths: widths.map((current, index) =>
+          index === column ? width : current
+        ),
+      });
+    };
+    document.addEventListener("mousemove", handleMove);
+    document.addEventListener("mouseup", handleUp);
+  };
+
+  const sortBy = (column: number, multi: boolean) =>
+    onViewChange({ sort: toggleSort(view.sort, column, multi) });
+
+  const dropOn = (e: DragEvent, target: number) => {
+    if (dragged === null) return;
+    e.preventDefault();
+    onViewChange({
+      columnOrder: moveColumn(view, columns.length, dragged, target),
+    });
+    setDragged(null);
+  };
+
+  return (
+    <div
+      ref={scrollRef}
+      onScroll={handleScroll}
+      className="max-h-96 overflow-auto text-sm"
+      role="grid"
+      aria-rowcount={rows.length + 1}
+      aria-colcount={shown.length}
+    >
+      <div
+        className="relative"
+        style={{
+          width: totalWidth,
+          minWidth: "100%",
+          height: headerHeight + rows.length * ROW_HEIGHT,
+        }}
+      >
+        <div
+          className="sticky top-0 z-10 bg-white"
+          style={{ width: totalWidth }}
+        >
+          <div
+            className="flex border-b"
+            style={{ height: HEADER_HEIGHT }}
+            role="row"
+            aria-rowindex={1}
+          >
+            <div
+              className="flex-shrink-0"
+              style={{ width: columnWindow.offset }}
+            />
+            {visibleColumns.map(({ column, index, position }) => {
+              const sortIndex = view.sort.findIndex(
+                (key) => key.column === index
+              );
+              const sortKey = view.sort[sortIndex];
+              return (
+                <div
+                  key={index}
+                  role="columnheader"
+                  aria-colindex={position + 1}
+                  onDragOver={(e) => dragged !== null && e.preventDefault()}
+                  onDrop={(e) => dropOn(e, index)}
+                  className={`relative flex-shrink-0 flex items-center justify-between px-2 font-normal text-left text-black text-[15px] ${borderFor(
+                    position,
+                    "border-gray-300"
+                  )} ${dragged === index ? "opacity-50" : ""}`}
+                  style={{ width: widths[index] }}
+                >
+                  <div className="flex items-center min-w-0">
+                    {getTypeIcon(column.type)}
+                    {column.name && (
+                      <span
+                        draggable
+                        onDragStart={(e) => {
+                          e.dataTransfer.effectAllowed = "move";
+                          e.dataTransfer.setData("text/plain", column.name);
+                          setDragged(index);
+                        }}
+                        onDragEnd={() => setDragged(null)}
+                        onClick={(e) => sortBy(index, e.shiftKey)}
+                        className="ml-2 cursor-pointer truncate"
+                        title={`${column.name} (drag to move the column)`}
+                      >
+                        {column.name}
+                      </span>
+                    )}
+                  </div>
+
+                  {column.name && (
+                    <button
+                      onClick={(e) => sortBy(index, e.shiftKey)}
+                      className="ml-2 p-1 flex items-center focus:outline-none"
+                      aria-label={`Sort by ${column.name}`}
+                      title="Click to sort, Shift+click to sort by several columns"
+                    >
+                      {sortKey ? (
+                        sortKey.direction === "asc" ? (
+                          <ChevronUp className="w-3 h-3" />
+                        ) : (
+                          <ChevronDownIcon className="w-3 h-3" />
+                        )
+                      ) : (
+                        <ChevronDownIcon className="w-3 h-3 rotate-180" />
+                      )}
+                      {view.sort.length > 1 && sortKey && (
+                        <span className="text-[10px] text-gray-500">
+                          {sortIndex + 1}
+                        </span>
+                      )}
+                    </button>
+                  )}
+
+                  <div
+                    onMouseDown={(e) => startResize(e, index)}
+                    className="absolute right-0 top-0 h-full w-2 cursor-col-resize"
+                  />
+                </div>
+              );
+            })}
+          </div>
+
+          {view.showFilters && (
+            <div
+              className="flex border-b"
+              style={{ height: FILTER_ROW_HEIGHT }}
+            >
+              <div
+                className="flex-shrink-0"
+                style={{ width: columnWindow.offset }}
+              />
+              {visibleColumns.map(({ column, index, position }) => (
+                <div
+                  key={index}
+                  className={`flex-shrink-0 flex items-center px-1 ${borderFor(
+                    position,
+                    "border-gray-200"
+                  )}`}
+                  style={{ width: widths[index] }}
+                >
+                  <FilterInput
+                    column={column}
+                    filter={
+                      view.filters.find((filter) => filter.column === index) ??
+                      emptyFilter(index, filterKindFor(column.type))
+                    }
+                    onChange={(filter) =>
+                      onViewChange({
+                        filters: [
+                          ...view.filters.filter(
+                            (existing) => existing.column !== index
+                          ),
+                          filter,
+                        ],
+                      })
+                    }
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {rows.slice(rowWindow.start, rowWindow.end).map((row, i) => {
+          const rowIndex = rowWindow.start + i;
+          return (
+            <div
+              key={rowIndex}
+              role="row"
+              aria-rowindex={rowIndex + 2}
+              aria-selected={activeRow === rowIndex}
+              onClick={onRowClick && ((e) => clickRow(e, rowIndex))}
+              className={`absolute left-0 flex border-b transition-colors ${
+                activeRow === rowIndex ? "bg-[#0c9abc]/10" : "hover:bg-muted/50"
+              } ${onRowClick ? "cursor-pointer" : ""}`}
+              style={{
+                top: headerHeight + rowIndex * ROW_HEIGHT,
+                height: ROW_HEIGHT,
+                width: totalWidth,
+              }}
+            >
+              <div
+                className="flex-shrink-0"
+                style={{ width: columnWindow.offset }}
+              />
+              {visibleColumns.map(({ column, index, position }) => {
+                const { Cell, Detail } = rendererFor(column.type);
+                const isExpanded =
+                  expanded?.row === row && expanded.column === index;
+                const canExpand =
+                  Detail !== undefined &&
+                  row[index] !== null &&
+                  row[index] !== undefined;
+                return (
+                  <div
+                    key={index}
+                    role="gridcell"
+                    aria-colindex={position + 1}
+                    aria-expanded={canExpand ? isExpanded : undefined}
+                    onClick={
+                      canExpand
+                        ? (e) => {
+                            // Expanding is all a click on such a cell does
+                            e.stopPropagation();
+                            setExpanded(
+                              isExpanded ? null : { row, column: index }
+                            );
+                          }
+                        : undefined
+                    }
+                    className={`flex-shrink-0 flex items-center min-w-0 overflow-hidden px-2 text-left ${borderFor(
+                      position,
+                      "border-gray-200"
+                    )} ${canExpand ? "cursor-pointer" : ""} ${
+                      isExpanded
+                        ? "bg-[#0c9abc]/10"
+                        : changedCells?.get(row)?.has(index)
+                          ? "bg-amber-100"
+                          : ""
+                    }`}
+                    style={{ width: widths[index] }}
+                    title={canExpand ? "Click to show in full" : undefined}
+                  >
+                    <Cell
+                      value={row[index]}
+                      column={column}
+                      row={row}
+                      columns={columns}
+                      search={view.search}
+                    />
+                  </div>
+                );
+              })}
+            </div>
+          );
+        })}
+
+        {detail && (
+          <div
+            className="absolute z-20 p-2 max-h-72 overflow-auto bg-white border rounded-md shadow-lg cursor-auto"
+            style={{
+              top: headerHeight + (detail.rowIndex + 1) * ROW_HEIGHT,
+              left: offsets[detail.position],
+              width: Math.max(widths[detail.column], DETAIL_MIN_WIDTH),
+            }}
+            onKeyDown={(e) => e.key === "Escape" && setExpanded(null)}
+          >
+            <div className="flex items-center justify-between mb-1 text-xs text-gray-500">
+              <span className="truncate">{columns[detail.column].name}</span>
+              <button
+                onClick={() => setExpanded(null)}
+                className="ml-2 p-0.5 rounded hover:bg-gray-100"
+                aria-label="Close"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </div>
+            <detail.Detail
+              value={detail.row[detail.column]}
+              column={columns[detail.column]}
+              row={detail.row}
+              columns={columns}
+              search={view.search}
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+import { useEffect, useState } from "react";
+import { Check, ChevronDown, ChevronUp, Clipboard, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cellText } from "@/lib/cells";
+import { Column, ColumnType } from "@/lib/query-types";
+
+// How long a field's copy button shows the confirmation
+const COPIED_FEEDBACK_MS = 1500;
+
+// Full text of a field: METADATA pretty-printed, everything else as the grid
+// shows it but without truncation.
+const fieldText = (value: unknown, column: Column) => {
+  if (column.type !== ColumnType.METADATA) return cellText(value);
+  let parsed = value;
+  if (typeof value === "string") {
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      return value;
+    }
+  }
+  return parsed === null || parsed === undefined
+    ? ""
+    : JSON.stringify(parsed, null, 2);
+};
+
+// Keys typed into these are not row navigation
+const isEditable = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable ||
+    ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
+interface RowInspectorProps {
+  columns: Column[];
+  row: unknown[];
+  rowIndex: number; // Position among the rows on display
+  rowCount: number;
+  onNavigate: (rowIndex: number) => void;
+  onClose: () => void;
+}
+
+// Side panel listing every column of one row with its full value. Up and
+// down step through the rows on display and Escape closes it, as long as the
+// focus is not in a text field.
+export function RowInspector({
+  columns,
+  row,
+  rowIndex,
+  rowCount,
+  onNavigate,
+  onClose,
+}: RowInspectorProps) {
+  const [copied, setCopied] = useState<number | null>(null);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isEditable(e.target) || e.altKey || e.ctrlKey || e.metaKey) return;
+      if (e.key === "ArrowDown" && rowIndex < rowCount - 1) {
+        e.preventDefault();
+        onNavigate(rowIndex + 1);
+      } else if (e.key === "ArrowUp" && rowIndex > 0) {
+        e.preventDefault();
+        onNavigate(rowIndex - 1);
+      } else if (e.key === "Escape") {
+        // Handled here, so it does not also stop a running query
+        e.preventDefault();
+        onClose();
+      }
+    };
+    // Capturing runs this before the window's other keydown listeners,
+    // whichever was added first
+    window.addEventListener("keydown", handleKeyDown, true);
+    return () => window.removeEventListener("keydown", handleKeyDown, true);
+  }, [rowIndex, rowCount, onNavigate, onClose]);
+
+  const copy = async (index: number) => {
+    try {
+      await navigator.clipboard.writeText(
+        fieldText(row[index], columns[index])
+      );
+      setCopied(index);
+      setTimeout(() => setCopied(null), COPIED_FEEDBACK_MS);
+    } catch (error) {
+      console.error("Error copying field:", error);
+      alert("Could not copy the value to the clipboard.");
+    }
+  };
+
+  return (
+    <div className="flex flex-col w-80 flex-shrink-0 max-h-96 border rounded-lg text-sm">
+      <div className="flex items-center justify-between px-3 py-2 border-b">
+        <span className="font-medium">
+          Row {rowIndex + 1} of {rowCount}
+        </span>
+        <div className="flex items-center">
+          <Button
+            onClick={() => onNavigate(rowIndex - 1)}
+            disabled={rowIndex === 0}
+            variant="ghost"
+            size="sm"
+            className="h-7 w-7 p-0"
+            aria-label="Previous row"
+            title="Previous row (Up)"
+          >
+            <ChevronUp className="w-4 h-4" />
+          </Button>
+          <Button
+            onClick={() => onNavigate(rowIndex + 1)}
+            disabled={rowIndex === rowCount - 1}
+            variant="ghost"
+            size="sm"
+            className="h-7 w-7 p-0"
+            aria-label="Next row"
+            title="Next row (Down)"
+          >
+            <ChevronDown className="w-4 h-4" />
+          </Button>
+          <Button
+            onClick={onClose}
+            variant="ghost"
+            size="sm"
+            className="h-7 w-7 p-0"
+            aria-label="Close row details"
+            title="Close (Escape)"
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+      <dl className="flex-1 overflow-auto px-3 py-2">
+        {columns.map((column, index) => {
+          const text = fieldText(row[index], column);
+          const isBlock =
+            column.type === ColumnType.METADATA ||
+            column.type === ColumnType.RUN_CMD;
+          return (
+            <div key={index} className="mb-3">
+              <dt className="flex items-center justify-between text-xs text-gray-500">
+                <span className="truncate" title={column.type}>
+                  {column.name || `Column ${index + 1}`}
+                </span>
+                <button
+                  onClick={() => copy(index)}
+                  className="ml-2 p-0.5 rounded hover:bg-gray-100"
+                  aria-label={`Copy ${column.name}`}
+                  title="Copy value"
+                >
+                  {copied === index ? (
+                    <Check className="w-3 h-3 text-green-600" />
+                  ) : (
+                    <Clipboard className="w-3 h-3" />
+                  )}
+                </button>
+              </dt>
+              <dd>
+                {row[index] === null || row[index] === undefined ? (
+                  <span className="text-gray-400 italic">null</span>
+                ) : isBlock ? (
+                  <pre className="max-h-64 overflow-auto p-2 rounded border bg-gray-50 font-mono text-xs whitespace-pre">
+                    {text}
+                  </pre>
+                ) : (
+                  <span className="break-all">{text}</span>
+                )}
+              </dd>
+            </div>
+          );
+        })}
+      </dl>
+    </div>
+  );
+}
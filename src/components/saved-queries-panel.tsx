@@ -0,0 +1,387 @@
+import React, { useMemo, useRef, useState } from "react";
+import {
+  Bookmark,
+  ChevronDown,
+  ChevronRight,
+  Download,
+  Folder,
+  Pencil,
+  Plus,
+  TextCursorInput,
+  Trash2,
+  Upload,
+} from "lucide-react";
+import { VscNewFile } from "react-icons/vsc";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { downloadFile } from "@/lib/export";
+import {
+  LibraryImportResult,
+  SavedQuery,
+  exportLibrary,
+  groupByFolder,
+  parseTags,
+  searchSavedQueries,
+} from "@/lib/saved-queries";
+
+const LIBRARY_FILE_NAME = "jagura-saved-queries.json";
+
+const downloadLibrary = (queries: SavedQuery[]) =>
+  downloadFile(exportLibrary(queries), LIBRARY_FILE_NAME, "application/json");
+
+interface SavedQueriesPanelProps {
+  savedQueries: SavedQuery[];
+  onSaveCurrent: () => void;
+  onInsert: (entry: SavedQuery) => void;
+  onOpenInNewTab: (entry: SavedQuery) => void;
+  onEdit: (entry: SavedQuery) => void;
+  onDelete: (id: string) => void;
+  onImport: (fileContent: string) => LibraryImportResult;
+  onClose: () => void;
+}
+
+export function SavedQueriesPanel({
+  savedQueries,
+  onSaveCurrent,
+  onInsert,
+  onOpenInNewTab,
+  onEdit,
+  onDelete,
+  onImport,
+  onClose,
+}: SavedQueriesPanelProps) {
+  const [search, setSearch] = useState("");
+  const [collapsedFolders, setCollapsedFolders] = useState<Set<string>>(
+    new Set()
+  );
+  const [importMessage, setImportMessage] = useState<{
+    text: string;
+    isError: boolean;
+  } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const folders = useMemo(
+    () => groupByFolder(searchSavedQueries(savedQueries, search)),
+    [savedQueries, search]
+  );
+
+  const toggleFolder = (name: string) => {
+    setCollapsedFolders((prev) => {
+      const next = new Set(prev);
+      if (next.has(name)) {
+        next.delete(name);
+      } else {
+        next.add(name);
+      }
+      return next;
+    });
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ""; // Lets the same file be picked again
+    if (!file) return;
+    try {
+      const { added, replaced } = onImport(await file.text());
+      setImportMessage({
+        text: `Imported ${added} new and ${replaced} updated queries.`,
+        isError: false,
+      });
+    } catch (error) {
+      setImportMessage({
+        text: error instanceof Error ? error.message : String(error),
+        isError: true,
+      });
+    }
+  };
+
+  return (
+    <div className="flex flex-col w-96 flex-shrink-0 border-l border-gray-200 p-2 text-left max-h-screen">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="flex items-center text-sm font-medium">
+          <Bookmark className="mr-2 w-4 h-4" />
+          Saved Queries
+          <span className="ml-2 text-xs text-gray-400">
+            {savedQueries.length}
+          </span>
+        </h2>
+        <button
+          onClick={onClose}
+          className="text-gray-500 hover:text-gray-700"
+          title="Close Saved Queries"
+        >
+          &times;
+        </button>
+      </div>
+
+      <Input
+        placeholder="Search by name, folder, #tag or text..."
+        value={search}
+        onChange={(e) => setSearch(e.target.value)}
+      />
+
+      <div className="mt-2 flex-grow overflow-auto border rounded">
+        {folders.length === 0 && (
+          <p className="p-3 text-xs text-gray-500">
+            {savedQueries.length === 0
+              ? "Save the current query to start a library."
+              : "No saved queries match the search."}
+          </p>
+        )}
+        {folders.map((folder) => {
+          const isCollapsed = collapsedFolders.has(folder.name) && !search;
+          return (
+            <div key={folder.name}>
+              <button
+                onClick={() => toggleFolder(folder.name)}
+                className="flex items-center w-full px-2 py-1 text-xs font-medium text-gray-600 bg-gray-50 border-b"
+              >
+                {isCollapsed ? (
+                  <ChevronRight className="mr-1 w-3 h-3" />
+                ) : (
+                  <ChevronDown className="mr-1 w-3 h-3" />
+                )}
+                <Folder className="mr-1 w-3 h-3" />
+                {folder.name || "Unfiled"}
+                <span className="ml-1 text-gray-400">
+                  ({folder.queries.length})
+                </span>
+              </button>
+              {!isCollapsed && (
+                <ul className="divide-y border-b">
+                  {folder.queries.map((entry) => (
+                    <li key={entry.id} className="p-2 pl-6">
+                      <div className="flex items-center">
+                        <span
+                          className="flex-grow text-sm font-medium truncate"
+                          title={entry.query}
+                        >
+                          {entry.name}
+                        </span>
+                        <button
+                          onClick={() => onInsert(entry)}
+                          className="p-1 text-gray-400 hover:text-gray-700"
+                          title="Insert at Cursor"
+                        >
+                          <TextCursorInput className="w-3 h-3" />
+                        </button>
+                        <button
+                          onClick={() => onOpenInNewTab(entry)}
+                          className="p-1 text-gray-400 hover:text-gray-700"
+                          title="Open in New Tab"
+                        >
+                          <VscNewFile className="w-3 h-3" />
+                        </button>
+                        <button
+                          onClick={() => onEdit(entry)}
+                          className="p-1 text-gray-400 hover:text-gray-700"
+                          title="Edit Saved Query"
+                        >
+                          <Pencil className="w-3 h-3" />
+                        </button>
+                        <button
+                          onClick={() => onDelete(entry.id)}
+                          className="p-1 text-gray-400 hover:text-red-600"
+                          title="Delete Saved Query"
+                        >
+                          <Trash2 className="w-3 h-3" />
+                        </button>
+                      </div>
+                      {entry.description && (
+                        <p className="text-xs text-gray-500">
+                          {entry.description}
+                        </p>
+                      )}
+                      {entry.tags.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-1">
+                          {entry.tags.map((tag) => (
+                            <button
+                              key={tag}
+                              onClick={() => setSearch(`#${tag}`)}
+                              className="px-1 rounded bg-gray-100 text-xs text-gray-600 hover:bg-gray-200"
+                            >
+                              #{tag}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {importMessage && (
+        <p
+          className={`mt-2 text-xs ${
+            importMessage.isError ? "text-red-500" : "text-green-600"
+          }`}
+        >
+          {importMessage.text}
+        </p>
+      )}
+      <div className="flex gap-2 mt-2">
+        <Button
+          size="sm"
+          onClick={onSaveCurrent}
+          className="flex-grow flex items-center bg-[#0c9abc] text-white hover:bg-[#0c9abc]"
+        >
+          <Plus className="mr-2 w-4 h-4" />
+          Save Current Query
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => fileInputRef.current?.click()}
+          title="Import a library from a JSON file"
+        >
+          <Upload className="w-4 h-4" />
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => downloadLibrary(savedQueries)}
+          disabled={savedQueries.length === 0}
+          title="Export the library as a JSON file"
+        >
+          <Download className="w-4 h-4" />
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={handleFileChange}
+        />
+      </div>
+    </div>
+  );
+}
+
+interface SaveQueryFormState {
+  name: string;
+  folder: string;
+  tags: string;
+  description: string;
+  query: string;
+}
+
+interface SaveQueryDialogProps {
+  // Either an existing entry being edited or the draft for a new one
+  entry: SavedQuery | Omit<SavedQuery, "id" | "updatedAt">;
+  folders: string[];
+  onSave: (entry: Omit<SavedQuery, "id" | "updatedAt">) => void;
+  onClose: () => void;
+}
+
+export function SaveQueryDialog({
+  entry,
+  folders,
+  onSave,
+  onClose,
+}: SaveQueryDialogProps) {
+  const [form, setForm] = useState<SaveQueryFormState>({
+    name: entry.name,
+    folder: entry.folder,
+    tags: entry.tags.join(", "),
+    description: entry.description,
+    query: entry.query,
+  });
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const handleSave = () => {
+    if (!form.name.trim()) {
+      setFormError("Name is required.");
+      return;
+    }
+    if (!form.query.trim()) {
+      setFormError("The query is empty.");
+      return;
+    }
+    onSave({
+      name: form.name.trim(),
+      folder: form.folder.trim(),
+      tags: parseTags(form.tags),
+      description: form.description.trim(),
+      query: form.query,
+    });
+  };
+
+  const handleOverlayClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (e.target === e.currentTarget) {
+      onClose();
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50"
+      onClick={handleOverlayClick}
+    >
+      <div className="bg-white rounded-2xl shadow-lg max-w-2xl w-full mx-4 md:mx-0 p-6 text-left">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-medium">
+            {"id" in entry ? "Edit Saved Query" : "Save Query"}
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700"
+            title="Close"
+          >
+            &times;
+          </button>
+        </div>
+
+        <div className="space-y-2">
+          <Input
+            placeholder="Name"
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+          />
+          <Input
+            placeholder="Folder (optional)"
+            list="saved-query-folders"
+            value={form.folder}
+            onChange={(e) => setForm({ ...form, folder: e.target.value })}
+          />
+          <datalist id="saved-query-folders">
+            {folders.map((folder) => (
+              <option key={folder} value={folder} />
+            ))}
+          </datalist>
+          <Input
+            placeholder="Tags, comma separated"
+            value={form.tags}
+            onChange={(e) => setForm({ ...form, tags: e.target.value })}
+          />
+          <textarea
+            className="w-full h-16 rounded-md border border-input px-3 py-1 text-sm outline-none"
+            placeholder="Description (optional)"
+            value={form.description}
+            onChange={(e) => setForm({ ...form, description: e.target.value })}
+          />
+          <textarea
+            className="w-full h-32 rounded-md border border-input px-3 py-1 text-sm font-mono outline-none"
+            value={form.query}
+            onChange={(e) => setForm({ ...form, query: e.target.value })}
+          />
+          {formError && <p className="text-sm text-red-500">{formError}</p>}
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSave}
+              className="bg-[#0c9abc] text-white hover:bg-[#0c9abc]"
+            >
+              Save
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,34 +1,35 @@
-/* eslint-disable @typescript-eslint/no-explicit-any */
-import React, { useState, useRef, useEffect, MouseEvent } from "react";
+import React, {
+  useState,
+  useRef,
+  useEffect,
+  useCallback,
+  useMemo,
+} from "react";
 import {
   Plus,
+  Filter,
+  Search,
+  X,
+  ArrowUpDown,
+  Ban,
+  Bookmark,
+  BarChart3,
+  Loader2,
   CheckCircle2,
-  ChevronUp,
-  ChevronDown as ChevronDownIcon,
 } from "lucide-react";
 import {
   GoClock,
-  GoTerminal,
   GoHistory,
 } from "react-icons/go";
-import { VscSymbolKey } from "react-icons/vsc";
-import { RxComponentBoolean, RxResume } from "react-icons/rx";
-import { IoIosRemoveCircleOutline } from "react-icons/io";
-import { VscDebugRestart } from "react-icons/vsc";
 import { TbDatabaseSearch } from "react-icons/tb";
-import { CiMedicalClipboard } from "react-icons/ci";
 import {
-  FaComputer,
-  FaRegCirclePlay,
   FaRegCircleStop,
-  FaRegCirclePause,
-  FaRegCircleXmark,
   FaPlay
 } from "react-icons/fa6";
 
-import { TiSortNumerically } from "react-icons/ti";
-import { BsExclamationOctagon, BsClipboardData } from "react-icons/bs";
+import { BsExclamationOctagon } from "react-icons/bs";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import {
   Table,
   TableBody,
@@ -37,91 +38,227 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
+import {
+  ConnectionManagerDialog,
+  ConnectionPicker,
+} from "@/components/connection-manager";
+import { ColumnsMenu } from "@/components/columns-menu";
+import { CompareMenu, CompareSource } from "@/components/compare-menu";
+import { CompletionPopup } from "@/components/completion-popup";
+import { ContainerActionsBar } from "@/components/container-actions-bar";
+import { ExportMenu } from "@/components/export-menu";
+import { HistoryPanel } from "@/components/history-panel";
+import { ResultsChart } from "@/components/results-chart";
+import { ResultsDiff } from "@/components/results-diff";
+import { ResultsGrid } from "@/components/results-grid";
+import { RowInspector } from "@/components/row-inspector";
+import { WatchControl } from "@/components/watch-control";
+import {
+  SaveQueryDialog,
+  SavedQueriesPanel,
+} from "@/components/saved-queries-panel";
+import { useCompletionSources } from "@/hooks/use-completion-sources";
+import { useConnections } from "@/hooks/use-connections";
+import {
+  ContainerActionsContext,
+  useContainerActions,
+} from "@/hooks/use-container-actions";
+import { useQueryHistory } from "@/hooks/use-query-history";
+import { useQueryWatch } from "@/hooks/use-query-watch";
+import { useSavedQueries } from "@/hooks/use-saved-queries";
+import { useWorkspacePersistence } from "@/hooks/use-workspace-persistence";
+import { getCaretCoordinates } from "@/lib/caret";
+import { canChart, defaultChartConfig } from "@/lib/chart";
+import { CompletionResult, getCompletions } from "@/lib/completion";
+import {
+  ReplacedRows,
+  containerNameOf,
+  containerStateOf,
+  restoreRows,
+  withContainerState,
+} from "@/lib/container-actions";
+import { validateScript } from "@/lib/diagnostics";
+import { filterRows, isFilterActive } from "@/lib/filter";
+import {
+  DEFAULT_GRID_VIEW,
+  GridViewState,
+  setViewAt,
+  shownColumns,
+  viewFor,
+} from "@/lib/grid-view";
+import { highlightLines } from "@/lib/highlight";
+import { statementChangesContainers } from "@/lib/parser";
+import {
+  QueryProgress,
+  QueryResponse,
+  ResultChunk,
+  ResultSet,
+  describeErrorPosition,
+  isCancelled,
+  parseQueryResponse,
+  toQueryError,
+} from "@/lib/protocol";
+import {
+  changedCells,
+  defaultDiffKey,
+  diffKeyCandidates,
+  diffResults,
+} from "@/lib/result-changes";
+import { SavedQuery } from "@/lib/saved-queries";
+import { sortRows } from "@/lib/sort";
+import {
+  findStatementAt,
+  splitStatements,
+  toScriptPosition,
+} from "@/lib/statements";
+import { QueryTransport, createTransport } from "@/lib/transport";
+import { watchBlocker } from "@/lib/watch";
+import {
+  DEFAULT_SETTINGS,
+  StatementResult,
+  Tab,
+  WorkspaceSettings,
+  createTab,
+  loadWorkspace,
+} from "@/lib/workspace";
 
-const highlightSQL = (sql: string) => {
-  const escapedSql = sql
-    .replace(/&/g, "&amp;")
-    .replace(/</g, "&lt;")
-    .replace(/>/g, "&gt;");
-
-  const keywords =
-    /\b(SELECT|FROM|CREATE|STOP|REMOVE|TABLE|INSERT|INTO|VALUES|UPDATE|DELETE|DROP|ALTER|INDEX|VIEW|LAUNCH|SHOW|NUMBER|STRING|BOOLEAN|CONTAINER|START|PAUSE|UNPAUSE|REMOVE|RESTART|KILL)\b/gi;
-  const operators =
-    /\b(\*|=|\+|-|>|<|>=|<=|<>|!=|IS|NULL|metadata|run_cmd|AND|OR|LIKE|IN|BETWEEN|EXISTS|TABLES|WHERE|false|true)\b/gi;
-
-  const highlighted = escapedSql
-    .replace(keywords, '<span style="color: #4A90E2;">$1</span>')
-    .replace(operators, '<span style="color: #D0021B;">$1</span>');
-
-  return highlighted;
-};
-
-enum ColumnType {
-  NUMBER = "NUMBER",
-  INT = "INT",
-  STRING = "STRING",
-  BOOLEAN = "BOOLEAN",
-  CONTAINER = "CONTAINER",
-  METADATA = "METADATA",
-  RUN_CMD = "RUN_CMD",
-  UNKNOWN = "UNKNOWN",
-  START = "START",
-  STOP = "STOP",
-  PAUSE = "PAUSE",
-  UNPAUSE = "UNPAUSE",
-  REMOVE = "REMOVE",
-  RESTART = "RESTART",
-  KILL = "KILL",
-  COUNT = "COUNT",
-  SUM = "SUM",
-  LENGTH = "LENGTH",
-}
-
-interface Column {
-  name: string;
-  type: ColumnType;
-}
-
-interface QueryResult {
-  columns: Column[];
-  rows: any[][];
-}
-
-interface Tab {
-  id: string;
-  name: string;
-  content: string;
-  queryResult: QueryResult | null;
-  executionTime: number | null;
-}
+// How long the executed range stays highlighted in the editor
+const EXECUTED_RANGE_FLASH_MS = 800;
 
 export default function SqlQueryInterface() {
-  const [tabs, setTabs] = useState<Tab[]>([
-    {
-      id: "1",
-      name: "New Query",
-      content: "",
-      queryResult: null,
-      executionTime: null,
-    },
-  ]);
-  const [activeTab, setActiveTab] = useState("1");
+  const {
+    connections,
+    addConnection,
+    updateConnection,
+    deleteConnection,
+    getConnection,
+  } = useConnections();
+  const [isConnectionDialogOpen, setIsConnectionDialogOpen] = useState(false);
+  const {
+    history,
+    addEntry: addHistoryEntry,
+    deleteEntry: deleteHistoryEntry,
+    clearHistory,
+  } = useQueryHistory();
+  const {
+    savedQueries,
+    addSavedQuery,
+    updateSavedQuery,
+    deleteSavedQuery,
+    importSavedQueries,
+  } = useSavedQueries();
+  // Only one sidebar is shown at a time
+  const [sidePanel, setSidePanel] = useState<"history" | "library" | null>(
+    null
+  );
+  // Draft of the saved query being created or edited, null when closed
+  const [savingQuery, setSavingQuery] = useState<
+    SavedQuery | Omit<SavedQuery, "id" | "updatedAt"> | null
+  >(null);
+  const [savedWorkspace] = useState(() => loadWorkspace(connections[0].id));
+  const [tabs, setTabs] = useState<Tab[]>(
+    () => savedWorkspace?.tabs ?? [createTab(connections[0].id, "1")]
+  );
+  const [activeTab, setActiveTab] = useState(
+    savedWorkspace?.activeTab ?? "1"
+  );
+  const [settings, setSettings] = useState<WorkspaceSettings>(
+    savedWorkspace?.settings ?? DEFAULT_SETTINGS
+  );
   const [renamingTabId, setRenamingTabId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(false);
-  const [sortConfig, setSortConfig] = useState<{
-    key: number;
-    direction: "asc" | "desc";
+  // Bumped after statements that may have launched, removed or changed
+  // containers, so the names offered by autocomplete are fetched again
+  const [containersVersion, setContainersVersion] = useState(0);
+  const [executedRange, setExecutedRange] = useState<{
+    tabId: string;
+    start: number;
+    end: number;
   } | null>(null);
-
-  const [columnWidths, setColumnWidths] = useState<number[]>([]);
-  const [progress, setProgress] = useState<number>(0); // Progress percentage for the loading bar
+  // Progress of the running script; `event` stays null unless the server
+  // streams progress events, `rows` until it starts streaming a result set
+  const [progress, setProgress] = useState<{
+    statement: number; // 1-based
+    total: number;
+    event: QueryProgress | null;
+    rows: number | null;
+  } | null>(null);
+  // Row open in the inspector, by position among the rows on display of
+  // the result identified by `resultKey`
+  const [inspectedRow, setInspectedRow] = useState<{
+    resultKey: string;
+    index: number;
+  } | null>(null);
+  // Per tab, the result its own is diffed against and the column rows are
+  // matched on, null for the default
+  const [comparisons, setComparisons] = useState<
+    Record<string, { source: CompareSource; keyColumn: string | null }>
+  >({});
+  const [completion, setCompletion] = useState<
+    | (CompletionResult & {
+        selectedIndex: number;
+        position: { top: number; left: number };
+        explicit: boolean; // Opened with Ctrl+Space
+      })
+    | null
+  >(null);
+  const completionSources = useCompletionSources(
+    getConnection(tabs.find((tab) => tab.id === activeTab)?.connectionId),
+    tabs,
+    containersVersion
+  );
+  // Actions run from CONTAINER cells update the rows of the active tab
+  const containerActions = useContainerActions({
+    connection: getConnection(
+      tabs.find((tab) => tab.id === activeTab)?.connectionId
+    ),
+    scope: {
+      tabId: activeTab,
+      resultIndex:
+        tabs.find((tab) => tab.id === activeTab)?.activeResultIndex ?? 0,
+    },
+    onStateChange: (name, state) => {
+      const tabId = activeTab;
+      const replaced: ReplacedRows = new Map();
+      const updateResults = (update: (result: ResultSet) => ResultSet) =>
+        setTabs((prevTabs) =>
+          prevTabs.map((tab) =>
+            tab.id === tabId
+              ? {
+                  ...tab,
+                  results: tab.results.map((result) =>
+                    result.response.kind === "resultSet"
+                      ? { ...result, response: update(result.response) }
+                      : result
+                  ),
+                }
+              : tab
+          )
+        );
+      updateResults((result) =>
+        withContainerState(result, name, state, replaced)
+      );
+      return () => updateResults((result) => restoreRows(result, replaced));
+    },
+    onExecuted: (entry) => {
+      addHistoryEntry(entry);
+      if (entry.status === "success") {
+        setContainersVersion((version) => version + 1);
+      }
+    },
+  });
 
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const preRef = useRef<HTMLPreElement>(null);
 
-  const resizingCol = useRef<number | null>(null);
-  const startX = useRef<number>(0);
-  const startWidth = useRef<number>(0);
+  const executedRangeTimeout = useRef<ReturnType<typeof setTimeout>>();
+  // The run in progress, so it can be stopped
+  const runControllerRef = useRef<AbortController | null>(null);
+  const runTransportRef = useRef<QueryTransport | null>(null);
+  // Aborts only the running statement, keeping the rows it already sent
+  const fetchControllerRef = useRef<AbortController | null>(null);
+
+  useWorkspacePersistence(tabs, activeTab, settings);
 
   useEffect(() => {
     document.body.style.overflow = "hidden";
@@ -131,13 +268,8 @@ export default function SqlQueryInterface() {
   }, []);
 
   const addTab = () => {
-    const newTab = {
-      id: Date.now().toString(),
-      name: `New Query`,
-      content: "",
-      queryResult: null,
-      executionTime: null,
-    };
+    const currentTab = tabs.find((tab) => tab.id === activeTab);
+    const newTab = createTab(getConnection(currentTab?.connectionId).id);
     setTabs([...tabs, newTab]);
     setActiveTab(newTab.id);
   };
@@ -158,214 +290,472 @@ export default function SqlQueryInterface() {
     setTabs(tabs.map((tab) => (tab.id === id ? { ...tab, name } : tab)));
   };
 
-  const getSelectedText = () => {
+  const updateTabConnection = (id: string, connectionId: string) => {
+    setTabs(
+      tabs.map((tab) => (tab.id === id ? { ...tab, connectionId } : tab))
+    );
+  };
+
+  const setActiveResult = (id: string, activeResultIndex: number) => {
+    setTabs((prevTabs) =>
+      prevTabs.map((tab) =>
+        tab.id === id ? { ...tab, activeResultIndex } : tab
+      )
+    );
+  };
+
+  const getSelection = () => {
     if (textareaRef.current) {
       const textarea = textareaRef.current;
       const start = textarea.selectionStart;
       const end = textarea.selectionEnd;
-      return textarea.value.substring(start, end);
+      return { text: textarea.value.substring(start, end), start, end };
     }
-    return "";
+    return { text: "", start: 0, end: 0 };
   };
 
-  const runQuery = async (queries: string) => {
+  // Replaces a range of the editor and leaves the caret after the new text.
+  const replaceEditorRange = (start: number, end: number, text: string) => {
     const currentTab = tabs.find((tab) => tab.id === activeTab);
     if (!currentTab) return;
+    updateTabContent(
+      currentTab.id,
+      currentTab.content.slice(0, start) + text + currentTab.content.slice(end)
+    );
+    requestAnimationFrame(() => {
+      const textarea = textareaRef.current;
+      if (!textarea) return;
+      textarea.focus();
+      textarea.setSelectionRange(start + text.length, start + text.length);
+    });
+  };
 
-    if (queries.trim() === "") {
-      alert("Please enter a SQL query to execute.");
+  const insertAtCursor = (text: string) => {
+    const { start, end } = getSelection();
+    replaceEditorRange(start, end, text);
+  };
+
+  const updateCompletion = (
+    content: string,
+    caret: number,
+    explicit = false
+  ) => {
+    const textarea = textareaRef.current;
+    const result = getCompletions(content, caret, completionSources, explicit);
+    if (!textarea || !result) {
+      setCompletion(null);
       return;
     }
+    const coordinates = getCaretCoordinates(textarea, result.from);
+    setCompletion({
+      ...result,
+      selectedIndex: 0,
+      position: {
+        top: coordinates.top + coordinates.lineHeight,
+        left: coordinates.left,
+      },
+      explicit,
+    });
+  };
 
-    setIsLoading(true);
-    setProgress(0);
-    const startTime = performance.now();
-
-    const progressInterval = setInterval(() => {
-      setProgress((prev) => {
-        const increment = Math.random() * 20; // Random increment between 0 and 20
-        const newProgress = Math.min(prev + increment, 98); // Cap at 98%
-        return newProgress;
-      });
-    }, 500);
-
-    try {
-      const response = await fetch("http://localhost:3000/query", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ query: queries }),
-      });
-
-      if (!response.ok) {
-        throw new Error(`Server responded with status ${response.status}`);
-      }
+  const acceptCompletion = (index: number) => {
+    if (!completion) return;
+    const item = completion.items[index];
+    replaceEditorRange(completion.from, completion.to, item.insertText);
+    setCompletion(null);
+  };
 
-      const jsonRes = (await response.json()) as { result: any[][] };
-      const data: any[][] = jsonRes.result;
+  const handleEditorChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    const { value, selectionStart } = e.target;
+    const currentTab = tabs.find((tab) => tab.id === activeTab);
+    // Typing a word character opens completions; other edits only refine
+    // or close a popup that is already open.
+    const typedWordChar =
+      value.length > (currentTab?.content.length ?? 0) &&
+      /\w/.test(value[selectionStart - 1] ?? "");
+    updateTabContent(activeTab, value);
+    if (typedWordChar || completion) {
+      updateCompletion(value, selectionStart, completion?.explicit);
+    }
+  };
 
-      if (
-        !Array.isArray(data) ||
-        data.length === 0 ||
-        !Array.isArray(data[0])
-      ) {
-        throw new Error("Invalid response format from server.");
-      }
+  const flashExecutedRange = (tabId: string, start: number, end: number) => {
+    clearTimeout(executedRangeTimeout.current);
+    setExecutedRange({ tabId, start, end });
+    executedRangeTimeout.current = setTimeout(
+      () => setExecutedRange(null),
+      EXECUTED_RANGE_FLASH_MS
+    );
+  };
 
-      const firstRow = data[0];
-      let columns: Column[];
-      let isErrorResponse = false;
-
-      if (
-        Array.isArray(firstRow) &&
-        firstRow.length === 1 &&
-        firstRow[0] === ""
-      ) {
-        isErrorResponse = true;
-        columns = [{ name: "", type: ColumnType.UNKNOWN }];
-      } else if (
-        Array.isArray(firstRow) &&
-        firstRow.length > 0 &&
-        typeof firstRow[0] === "object" &&
-        firstRow[0] !== null &&
-        "type" in firstRow[0] &&
-        "name" in firstRow[0]
-      ) {
-        columns = firstRow.map((col: any) => ({
-          name: col.name,
-          type: (col.type as string).toUpperCase() as ColumnType,
-        }));
-      } else {
-        columns = firstRow.map((colName: string) => ({
-          name: colName,
-          type: ColumnType.UNKNOWN,
-        }));
-      }
+  useEffect(() => () => clearTimeout(executedRangeTimeout.current), []);
+
+  // Runs each statement of the script as its own request so every statement
+  // gets its own result, error and timing. `scriptOffset` is where the script
+  // starts in the editor; scripts that do not come from the editor (history
+  // re-runs) leave it undefined and report positions against the script.
+  // A `refresh` keeps the results on display, with their sort, scroll and
+  // selection, until each is replaced by its new one. Resolves to whether
+  // every statement ran without error.
+  const runQuery = async (
+    script: string,
+    {
+      scriptOffset,
+      connectionId,
+      refresh = false,
+    }: { scriptOffset?: number; connectionId?: string; refresh?: boolean } = {}
+  ): Promise<boolean> => {
+    const currentTab = tabs.find((tab) => tab.id === activeTab);
+    if (!currentTab) return false;
 
-      let updatedQueryResult: QueryResult;
+    const statements = splitStatements(script);
+    if (statements.length === 0) {
+      alert("Please enter a SQL query to execute.");
+      return false;
+    }
 
-      if (isErrorResponse && data.length >= 2) {
-        updatedQueryResult = {
-          columns,
-          rows: [data[1]],
-        };
-      } else {
-        updatedQueryResult = {
-          columns,
-          rows: data.slice(1),
-        };
-      }
+    // The backend may accept more than the client-side grammar, so syntax
+    // errors warn instead of blocking outright.
+    const syntaxErrors = validateScript(script);
+    if (
+      syntaxErrors.length > 0 &&
+      !confirm(
+        `The query has ${syntaxErrors.length} syntax error(s):\n\n` +
+          syntaxErrors
+            .map((error) => `Statement ${error.statement}: ${error.message}`)
+            .join("\n") +
+          "\n\nRun it anyway?"
+      )
+    ) {
+      return false;
+    }
 
+    const tabId = currentTab.id;
+    const connection = getConnection(connectionId ?? currentTab.connectionId);
+    const source = scriptOffset === undefined ? script : currentTab.content;
+    const sourceOffset = scriptOffset ?? 0;
+    if (scriptOffset !== undefined) {
+      flashExecutedRange(
+        tabId,
+        scriptOffset + statements[0].start,
+        scriptOffset + statements[statements.length - 1].end
+      );
+    }
+    const updateRunTab = (update: (tab: Tab) => Tab) =>
       setTabs((prevTabs) =>
-        prevTabs.map((tab) =>
-          tab.id === activeTab
-            ? {
-                ...tab,
-                queryResult: updatedQueryResult,
-                executionTime: performance.now() - startTime,
-              }
-            : tab
-        )
+        prevTabs.map((tab) => (tab.id === tabId ? update(tab) : tab))
       );
 
-      if (columnWidths.length === 0) {
-        setColumnWidths(updatedQueryResult.columns.map(() => 150));
-      }
+    setIsLoading(true);
+    if (!refresh) {
+      containerActions.reset(tabId);
+      updateRunTab((tab) => ({
+        ...tab,
+        // New rows start in the server's order, from the top
+        gridViews: tab.gridViews.map((view) => ({
+          ...view,
+          sort: [],
+          scrollTop: 0,
+          scrollLeft: 0,
+        })),
+        results: [],
+        activeResultIndex: 0,
+        skippedStatements: 0,
+      }));
+    }
 
-      setSortConfig(null);
-    } catch (error: any) {
-      console.error("Error running query:", error);
-      const errorResult: QueryResult = {
-        columns: [{ name: "", type: ColumnType.UNKNOWN }],
-        rows: [["Failed to execute query. Please try again."]],
-      };
+    const transport = createTransport(connection);
+    const controller = new AbortController();
+    let succeeded = true;
+    let changedContainers = false;
+    runTransportRef.current = transport;
+    runControllerRef.current = controller;
 
-      setTabs((prevTabs) =>
-        prevTabs.map((tab) =>
-          tab.id === activeTab
-            ? {
-                ...tab,
-                queryResult: errorResult,
+    try {
+      for (let index = 0; index < statements.length; index++) {
+        const statement = statements[index];
+        const startTime = performance.now();
+        setProgress({
+          statement: index + 1,
+          total: statements.length,
+          event: null,
+          rows: null,
+        });
+
+        // Stopping the whole run also stops the statement
+        const fetchController = new AbortController();
+        const abortFetch = () => fetchController.abort();
+        controller.signal.addEventListener("abort", abortFetch);
+        fetchControllerRef.current = fetchController;
+
+        // Rows streamed so far, shown while the rest is still arriving
+        let streamed = null as ResultSet | null;
+        const showRows = (chunk: ResultChunk) => {
+          const isFirst = chunk.columns !== undefined;
+          if (chunk.columns) {
+            streamed = { kind: "resultSet", columns: chunk.columns, rows: [] };
+          }
+          if (!streamed) return;
+          const partial: ResultSet = {
+            ...streamed,
+            rows: streamed.rows.concat(chunk.rows),
+          };
+          streamed = partial;
+          setProgress((prev) => prev && { ...prev, rows: partial.rows.length });
+          updateRunTab((tab) => ({
+            ...tab,
+            results: [
+              ...tab.results.slice(0, index),
+              {
+                statement: statement.text,
+                response: partial,
                 executionTime: performance.now() - startTime,
-              }
-            : tab
-        )
-      );
+                streaming: true,
+              },
+            ],
+            activeResultIndex: isFirst ? index : tab.activeResultIndex,
+          }));
+        };
+
+        let response: QueryResponse;
+        try {
+          response = parseQueryResponse(
+            await transport.execute({
+              query: statement.text,
+              signal: fetchController.signal,
+              onProgress: (event) =>
+                setProgress((prev) => prev && { ...prev, event }),
+              // Partial rows would replace the full ones on display
+              onRows: refresh ? undefined : showRows,
+              timeoutMs:
+                settings.timeoutSeconds === null
+                  ? undefined
+                  : settings.timeoutSeconds * 1000,
+            })
+          );
+        } catch (error) {
+          response = toQueryError(error);
+          if (!isCancelled(response)) {
+            console.error("Error running query:", error);
+          }
+        } finally {
+          controller.signal.removeEventListener("abort", abortFetch);
+          fetchControllerRef.current = null;
+        }
 
-      setSortConfig(null);
+        // Fetching was stopped on purpose: keep what arrived and go on
+        if (streamed && isCancelled(response) && !controller.signal.aborted) {
+          response = { ...streamed, truncated: true };
+        }
+
+        if (response.kind === "error" && !isCancelled(response)) {
+          response = {
+            ...response,
+            position: toScriptPosition(
+              response.position,
+              source,
+              sourceOffset + statement.start,
+              index + 1
+            ),
+          };
+        }
+
+        const result: StatementResult = {
+          statement: statement.text,
+          response,
+          executionTime: performance.now() - startTime,
+        };
+        // Refreshes repeat the same query; one entry per run would flood
+        // the history
+        if (!refresh) {
+          addHistoryEntry({
+            query: statement.text,
+            executedAt: new Date().toISOString(),
+            connectionId: connection.id,
+            connectionName: connection.name,
+            durationMs: result.executionTime,
+            rowCount:
+              response.kind === "resultSet"
+                ? response.rows.length
+                : response.kind === "ack"
+                ? response.affected ?? null
+                : null,
+            status: isCancelled(response)
+              ? "cancelled"
+              : response.kind === "error"
+              ? "error"
+              : "success",
+            errorMessage:
+              response.kind === "error" ? response.message : undefined,
+          });
+        }
+        // Cancelling always stops the script, whatever stopOnError says
+        const stopsHere =
+          isCancelled(response) ||
+          (response.kind === "error" && settings.stopOnError);
+        const skippedStatements = stopsHere
+          ? statements.length - index - 1
+          : 0;
+
+        updateRunTab((tab) => ({
+          ...tab,
+          results: [
+            ...tab.results.slice(0, index),
+            result,
+            // Results of the previous run not replaced yet
+            ...(refresh && !stopsHere
+              ? tab.results.slice(index + 1, statements.length)
+              : []),
+          ],
+          activeResultIndex:
+            refresh && !stopsHere ? tab.activeResultIndex : index,
+          skippedStatements,
+        }));
+
+        if (response.kind === "error") succeeded = false;
+        // A statement that was cancelled may still have been carried out
+        if (
+          (response.kind !== "error" || isCancelled(response)) &&
+          statementChangesContainers(statement.text)
+        ) {
+          changedContainers = true;
+        }
+        if (stopsHere) break;
+      }
     } finally {
-      clearInterval(progressInterval);
-      setProgress(100);
+      runTransportRef.current = null;
+      runControllerRef.current = null;
+      setProgress(null);
       setIsLoading(false);
+      if (changedContainers) setContainersVersion((version) => version + 1);
     }
+    return succeeded;
   };
 
+  // Runs the selection, or the statement under the caret when nothing is
+  // selected.
   const handleRunSelected = () => {
-    const selectedText = getSelectedText();
-    if (selectedText.trim() !== "") {
-      runQuery(selectedText);
+    const selection = getSelection();
+    if (selection.text.trim() !== "") {
+      runQuery(selection.text, { scriptOffset: selection.start });
+      return;
+    }
+
+    const currentTab = tabs.find((tab) => tab.id === activeTab);
+    if (!currentTab) return;
+    const statement = findStatementAt(currentTab.content, selection.start);
+    if (statement) {
+      runQuery(statement.text, { scriptOffset: statement.start });
     } else {
-      const currentTab = tabs.find((tab) => tab.id === activeTab);
-      if (currentTab) {
-        const allQueries = currentTab.content
-          .split(";")
-          .map((query) => query.trim())
-          .filter((query) => query.length > 0)
-          .join("; ");
-
-        if (allQueries) {
-          runQuery(allQueries);
-        } else {
-          alert("Please enter a SQL query to execute.");
-        }
-      }
+      alert("Please enter a SQL query to execute.");
     }
   };
 
-  const handleKeyDown = (e: React.KeyboardEvent) => {
-    if (e.key === "Enter" && e.ctrlKey) {
-      e.preventDefault();
-      handleRunSelected();
+  // Stops waiting for the running statement and asks the backend to abort
+  // it; the statements after it are skipped.
+  const stopRunningQuery = useCallback(() => {
+    runTransportRef.current?.cancel();
+    runControllerRef.current?.abort();
+  }, []);
+
+  // Ends the running statement with the rows received so far; the rest of
+  // the script still runs.
+  const stopFetching = useCallback(() => {
+    fetchControllerRef.current?.abort();
+    runTransportRef.current?.cancel();
+  }, []);
+
+  useEffect(() => {
+    if (!isLoading) return;
+    const handleEscape = (e: KeyboardEvent) => {
+      // Editor shortcuts such as closing completions take precedence
+      if (e.key === "Escape" && !e.defaultPrevented) stopRunningQuery();
+    };
+    window.addEventListener("keydown", handleEscape);
+    return () => window.removeEventListener("keydown", handleEscape);
+  }, [isLoading, stopRunningQuery]);
+
+  const handleRunAll = () => {
+    const currentTab = tabs.find((tab) => tab.id === activeTab);
+    if (currentTab) {
+      runQuery(currentTab.content, { scriptOffset: 0 });
     }
   };
 
-  const handleSort = (columnIndex: number) => {
-    let direction: "asc" | "desc" = "asc";
-
-    if (
-      sortConfig &&
-      sortConfig.key === columnIndex &&
-      sortConfig.direction === "asc"
-    ) {
-      direction = "desc";
+  const { watches, isPageVisible, startWatch, stopWatch } = useQueryWatch({
+    activeTab,
+    isLoading,
+    getTab: (tabId) => tabs.find((tab) => tab.id === tabId),
+    // Without an editor offset, so the whole script does not flash on
+    // every run
+    run: () =>
+      runQuery(tabs.find((tab) => tab.id === activeTab)?.content ?? "", {
+        refresh: true,
+      }),
+  });
+
+  const handleStartWatch = (intervalSeconds: number) => {
+    const currentTab = tabs.find((tab) => tab.id === activeTab);
+    const blocker = watchBlocker(currentTab?.content ?? "");
+    if (blocker) {
+      alert(blocker);
+      return;
     }
+    startWatch(activeTab, intervalSeconds);
+  };
 
-    setSortConfig({ key: columnIndex, direction });
+  const openInNewTab = (content: string, connectionId: string) => {
+    const newTab = {
+      ...createTab(getConnection(connectionId).id),
+      name: content.replace(/\s+/g, " ").slice(0, 24),
+      content,
+    };
+    setTabs((prevTabs) => [...prevTabs, newTab]);
+    setActiveTab(newTab.id);
+  };
 
-    setTabs((prevTabs) =>
-      prevTabs.map((tab) => {
-        if (tab.id === activeTab && tab.queryResult) {
-          const sortedRows = [...tab.queryResult.rows].sort((a, b) => {
-            const aVal = a[columnIndex];
-            const bVal = b[columnIndex];
-
-            if (typeof aVal === "number" && typeof bVal === "number") {
-              return direction === "asc" ? aVal - bVal : bVal - aVal;
-            }
-            return direction === "asc"
-              ? String(aVal).localeCompare(String(bVal))
-              : String(bVal).localeCompare(String(aVal));
-          });
-          return {
-            ...tab,
-            queryResult: { ...tab.queryResult, rows: sortedRows },
-          };
-        }
-        return tab;
-      })
-    );
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (completion && !e.ctrlKey) {
+      const count = completion.items.length;
+      if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+        e.preventDefault();
+        const step = e.key === "ArrowDown" ? 1 : count - 1;
+        setCompletion({
+          ...completion,
+          selectedIndex: (completion.selectedIndex + step) % count,
+        });
+        return;
+      }
+      if (e.key === "Enter" || e.key === "Tab") {
+        e.preventDefault();
+        acceptCompletion(completion.selectedIndex);
+        return;
+      }
+      if (e.key === "Escape") {
+        e.preventDefault();
+        setCompletion(null);
+        return;
+      }
+    }
+    if (e.key === " " && e.ctrlKey) {
+      e.preventDefault();
+      const { value, selectionStart } = e.currentTarget;
+      updateCompletion(value, selectionStart, true);
+      return;
+    }
+    if (e.key === "Enter" && e.ctrlKey) {
+      e.preventDefault();
+      if (isLoading) return;
+      if (e.shiftKey) {
+        handleRunAll();
+      } else {
+        handleRunSelected();
+      }
+    }
   };
 
   const handleScroll = () => {
+    setCompletion(null);
     if (preRef.current && textareaRef.current) {
       preRef.current.scrollTop = textareaRef.current.scrollTop;
       preRef.current.scrollLeft = textareaRef.current.scrollLeft;
@@ -380,72 +770,205 @@ export default function SqlQueryInterface() {
   }, [activeTab, tabs]);
 
   const currentTab = tabs.find((tab) => tab.id === activeTab)!;
+  const activeConnection = getConnection(currentTab?.connectionId);
+
+  const range = executedRange?.tabId === activeTab ? executedRange : null;
+  const diagnostics = validateScript(currentTab?.content ?? "");
+  const diagnosticLines = new Set(diagnostics.map((d) => d.line));
+  const editorLines = highlightLines(currentTab?.content ?? "", [
+    ...(range
+      ? [
+          {
+            start: range.start,
+            end: range.end,
+            style: "background-color: #fef08a;",
+          },
+        ]
+      : []),
+    ...diagnostics.map((diagnostic) => ({
+      start: diagnostic.start,
+      end: diagnostic.end,
+      style: "text-decoration: underline wavy #ef4444;",
+    })),
+  ]);
 
-  const handleMouseDown = (e: MouseEvent, index: number) => {
-    resizingCol.current = index;
-    startX.current = e.clientX;
-    startWidth.current = columnWidths[index];
+  const activeResult = currentTab?.results[currentTab.activeResultIndex];
+  const activeResponse = activeResult?.response;
+  const resultSet =
+    activeResponse?.kind === "resultSet" ? activeResponse : null;
+  const gridView = resultSet
+    ? viewFor(
+        currentTab.gridViews[currentTab.activeResultIndex] ?? DEFAULT_GRID_VIEW,
+        resultSet.columns
+      )
+    : DEFAULT_GRID_VIEW;
+  const comparison =
+    currentTab && resultSet ? comparisons[currentTab.id] : undefined;
+  // Charts only make sense with numbers to plot
+  const showChart =
+    resultSet !== null &&
+    !comparison &&
+    gridView.showChart &&
+    canChart(resultSet.columns);
+  const activeFilterCount = gridView.filters.filter(isFilterActive).length;
+  const isFiltering = activeFilterCount > 0 || gridView.search.trim() !== "";
+  // Filtered, then sorted: the rows in the order the grid shows them. Only
+  // the fields involved are dependencies, so scrolling does not recompute.
+  const { columnOrder, hiddenColumns, filters, search, sort } = gridView;
+  const displayedRows = useMemo(() => {
+    if (!resultSet) return [];
+    const filtered = filterRows(
+      resultSet.rows,
+      resultSet.columns,
+      filters,
+      search,
+      shownColumns(
+        { columnOrder, hiddenColumns },
+        resultSet.columns.length
+      )
+    );
+    return sortRows(filtered, resultSet.columns, sort);
+  }, [resultSet, columnOrder, hiddenColumns, filters, search, sort]);
+
+  // Identifies the result on display; the grid and inspector state of one
+  // result do not carry over to another
+  const resultKey = `${currentTab?.id}-${currentTab?.activeResultIndex}`;
+  const inspectedIndex =
+    inspectedRow?.resultKey === resultKey &&
+    inspectedRow.index < displayedRows.length
+      ? inspectedRow.index
+      : null;
+  const inspectRow = useCallback(
+    (index: number) => setInspectedRow({ resultKey, index }),
+    [resultKey]
+  );
+  const closeInspector = useCallback(() => setInspectedRow(null), []);
+
+  // While watching, the cells that differ from the run before
+  const previousResponse = currentTab
+    ? watches[currentTab.id]?.previous?.[currentTab.activeResultIndex]
+        ?.response
+    : undefined;
+  const watchChanges = useMemo(
+    () =>
+      resultSet && previousResponse?.kind === "resultSet"
+        ? changedCells(previousResponse, resultSet)
+        : undefined,
+    [resultSet, previousResponse]
+  );
 
-    document.addEventListener("mousemove", handleMouseMove);
-    document.addEventListener("mouseup", handleMouseUp);
+  // The result being compared against, which may have gone since, e.g.
+  // with its tab closed or re-run into an error
+  const compareTab = comparison
+    ? tabs.find((tab) => tab.id === comparison.source.tabId)
+    : undefined;
+  const compareResponse =
+    compareTab?.results[compareTab.activeResultIndex]?.response;
+  const compareResult = !compareTab
+    ? null
+    : comparison?.source.kind === "snapshot"
+      ? (compareTab.snapshot?.result ?? null)
+      : compareResponse?.kind === "resultSet"
+        ? compareResponse
+        : null;
+  const diffKeyColumns = useMemo(
+    () =>
+      resultSet && compareResult
+        ? diffKeyCandidates(compareResult, resultSet)
+        : [],
+    [resultSet, compareResult]
+  );
+  const diffKey =
+    comparison?.keyColumn && diffKeyColumns.includes(comparison.keyColumn)
+      ? comparison.keyColumn
+      : resultSet && compareResult
+        ? defaultDiffKey(compareResult, resultSet)
+        : null;
+  const resultDiff = useMemo(
+    () =>
+      resultSet && compareResult && diffKey !== null
+        ? diffResults(compareResult, resultSet, diffKey)
+        : null,
+    [resultSet, compareResult, diffKey]
+  );
+  const compareLabel = !compareTab
+    ? ""
+    : comparison?.source.kind === "snapshot" && compareTab.snapshot
+      ? `${
+          compareTab.id === currentTab?.id ? "Snapshot" : compareTab.name
+        } from ${new Date(compareTab.snapshot.takenAt).toLocaleTimeString()}`
+      : compareTab.name;
+
+  const takeSnapshot = () => {
+    if (!currentTab || !resultSet || !activeResult) return;
+    const tabId = currentTab.id;
+    const snapshot = {
+      statement: activeResult.statement,
+      result: { columns: resultSet.columns, rows: resultSet.rows },
+      takenAt: new Date().toISOString(),
+    };
+    setTabs((prevTabs) =>
+      prevTabs.map((tab) => (tab.id === tabId ? { ...tab, snapshot } : tab))
+    );
   };
 
-  const handleMouseMove = (e: globalThis.MouseEvent) => {
-    if (resizingCol.current === null) return;
-    const deltaX = e.clientX - startX.current;
-    const newWidth = Math.max(startWidth.current + deltaX, 50);
-
-    setColumnWidths((prevWidths) => {
-      const updatedWidths = [...prevWidths];
-      updatedWidths[resizingCol.current!] = newWidth;
-      return updatedWidths;
+  const updateComparison = (
+    next: { source: CompareSource; keyColumn: string | null } | null
+  ) => {
+    if (!currentTab) return;
+    const tabId = currentTab.id;
+    setComparisons((prev) => {
+      if (next) return { ...prev, [tabId]: next };
+      const rest = { ...prev };
+      delete rest[tabId];
+      return rest;
     });
   };
 
-  const handleMouseUp = () => {
-    resizingCol.current = null;
-    document.removeEventListener("mousemove", handleMouseMove);
-    document.removeEventListener("mouseup", handleMouseUp);
+  // Containers of the rows on display, each once, for bulk actions
+  const containerTargets = useMemo(() => {
+    if (!resultSet) return [];
+    const targets = new Map<string, string | null>();
+    displayedRows.forEach((row) => {
+      const name = containerNameOf(row, resultSet.columns);
+      if (name !== null && !targets.has(name)) {
+        targets.set(name, containerStateOf(row, resultSet.columns));
+      }
+    });
+    return Array.from(targets, ([name, state]) => ({ name, state }));
+  }, [resultSet, displayedRows]);
+
+  // Changes how the active tab shows its active result; bound to both so
+  // a late update from a grid that is going away still lands where it was.
+  const updateGridView = (update: Partial<GridViewState>) => {
+    if (!resultSet) return;
+    const tabId = currentTab.id;
+    const resultIndex = currentTab.activeResultIndex;
+    setTabs((prevTabs) =>
+      prevTabs.map((tab) =>
+        tab.id === tabId
+          ? {
+              ...tab,
+              gridViews: setViewAt(tab.gridViews, resultIndex, {
+                ...viewFor(
+                  tab.gridViews[resultIndex] ?? DEFAULT_GRID_VIEW,
+                  resultSet.columns
+                ),
+                ...update,
+              }),
+            }
+          : tab
+      )
+    );
   };
 
-  const getTypeIcon = (type: string) => {
-    switch (type) {
-      case ColumnType.NUMBER:
-      case ColumnType.INT:
-        return <TiSortNumerically className="text-black w-5 h-5" />;
-      case ColumnType.STRING:
-        return <VscSymbolKey className="text-black w-5 h-5" />;
-      case ColumnType.BOOLEAN:
-        return <RxComponentBoolean className="text-black w-5 h-5" />;
-      case ColumnType.CONTAINER:
-        return <FaComputer className="text-black w-5 h-5" />;
-      case ColumnType.METADATA:
-        return <BsClipboardData className="text-black w-5 h-5" />;
-      case ColumnType.RUN_CMD:
-        return <GoTerminal className="text-black w-5 h-5" />;
-      case ColumnType.START:
-        return <FaRegCirclePlay className="text-black w-5 h-5" />;
-      case ColumnType.STOP:
-        return <FaRegCircleStop className="text-black w-5 h-5" />;
-      case ColumnType.PAUSE:
-        return <FaRegCirclePause className="text-black w-5 h-5" />;
-      case ColumnType.UNPAUSE:
-        return <RxResume className="text-black w-5 h-5" />;
-      case ColumnType.REMOVE:
-        return <IoIosRemoveCircleOutline className="text-black w-5 h-5" />;
-      case ColumnType.RESTART:
-        return <VscDebugRestart className="text-black w-5 h-5" />;
-      case ColumnType.KILL:
-        return <FaRegCircleXmark className="text-black w-5 h-5" />;
-      case ColumnType.COUNT:
-        return <CiMedicalClipboard className="text-black w-5 h-5" />;
-      case ColumnType.SUM:
-        return <CiMedicalClipboard className="text-black w-5 h-5" />;
-      case ColumnType.LENGTH:
-        return <CiMedicalClipboard className="text-black w-5 h-5" />;
-      default:
-        return null;
-    }
+  // Only the shown columns, in display order, as the user sees them
+  const getDisplayedResult = () => {
+    const shown = shownColumns(gridView, resultSet?.columns.length ?? 0);
+    return {
+      columns: shown.map((index) => resultSet!.columns[index]),
+      rows: displayedRows.map((row) => shown.map((index) => row[index])),
+    };
   };
 
   // State variables for the image dialog
@@ -552,14 +1075,114 @@ export default function SqlQueryInterface() {
           </button>
         </div>
 
-        <div className="mt-4 mb-2 flex justify-start">
+        <div className="mt-4 mb-2 flex justify-start gap-2">
+          <ConnectionPicker
+            connections={connections}
+            activeConnection={activeConnection}
+            onSelect={(id) => updateTabConnection(activeTab, id)}
+            onManage={() => setIsConnectionDialogOpen(true)}
+          />
+          {isLoading ? (
+            <Button
+              onClick={stopRunningQuery}
+              variant="destructive"
+              className="flex items-center"
+              title="Cancel the running query (Esc)"
+            >
+              <FaRegCircleStop className="mr-2 w-4 h-4" />
+              Stop
+            </Button>
+          ) : (
+            <Button
+              onClick={handleRunSelected}
+              className="bg-[#0c9abc] text-white hover:bg-[#0c9abc] disabled:bg-gray-400 flex items-center"
+              title="Run the selection or the statement under the cursor (Ctrl+Enter)"
+            >
+              <FaPlay className="mr-2 w-4 h-4" />
+              Run Selected
+            </Button>
+          )}
           <Button
-            onClick={handleRunSelected}
-            className="bg-[#0c9abc] text-white hover:bg-[#0c9abc] disabled:bg-gray-400 flex items-center"
+            onClick={handleRunAll}
+            variant="outline"
+            className="flex items-center"
             disabled={isLoading}
+            title="Run every statement in the editor (Shift+Ctrl+Enter)"
           >
             <FaPlay className="mr-2 w-4 h-4" />
-            {isLoading ? "Running..." : "Run Selected"}
+            Run All
+          </Button>
+          <label className="flex items-center text-sm text-gray-600">
+            <input
+              type="checkbox"
+              className="mr-2"
+              checked={settings.stopOnError}
+              onChange={(e) =>
+                setSettings({ ...settings, stopOnError: e.target.checked })
+              }
+            />
+            Stop on first error
+          </label>
+          <label
+            className="flex items-center text-sm text-gray-600"
+            title="Save the last results with the workspace so they survive a reload"
+          >
+            <input
+              type="checkbox"
+              className="mr-2"
+              checked={settings.persistResults}
+              onChange={(e) =>
+                setSettings({ ...settings, persistResults: e.target.checked })
+              }
+            />
+            Keep results on reload
+          </label>
+          <select
+            className="h-9 rounded-md border border-input px-2 text-sm text-gray-600 bg-transparent"
+            value={settings.timeoutSeconds ?? ""}
+            onChange={(e) =>
+              setSettings({
+                ...settings,
+                timeoutSeconds:
+                  e.target.value === "" ? null : Number(e.target.value),
+              })
+            }
+            title="Client-side timeout for each statement"
+          >
+            <option value="">Connection timeout</option>
+            <option value="10">10 s timeout</option>
+            <option value="30">30 s timeout</option>
+            <option value="60">1 min timeout</option>
+            <option value="300">5 min timeout</option>
+            <option value="0">No timeout</option>
+          </select>
+          <WatchControl
+            watch={watches[activeTab]}
+            isPaused={!isPageVisible}
+            onStart={handleStartWatch}
+            onStop={() => stopWatch(activeTab)}
+          />
+          <Button
+            onClick={() =>
+              setSidePanel(sidePanel === "library" ? null : "library")
+            }
+            variant={sidePanel === "library" ? "secondary" : "ghost"}
+            className="flex items-center ml-auto"
+            title="Browse saved queries and snippets"
+          >
+            <Bookmark className="mr-2 w-4 h-4" />
+            Saved
+          </Button>
+          <Button
+            onClick={() =>
+              setSidePanel(sidePanel === "history" ? null : "history")
+            }
+            variant={sidePanel === "history" ? "secondary" : "ghost"}
+            className="flex items-center"
+            title="Show previously executed queries"
+          >
+            <GoHistory className="mr-2 w-4 h-4" />
+            History
           </Button>
         </div>
 
@@ -575,8 +1198,10 @@ export default function SqlQueryInterface() {
               zIndex: 10,
             }}
             value={currentTab?.content || ""}
-            onChange={(e) => updateTabContent(activeTab, e.target.value)}
+            onChange={handleEditorChange}
             onKeyDown={handleKeyDown}
+            onBlur={() => setCompletion(null)}
+            onClick={() => setCompletion(null)}
             onScroll={handleScroll}
             spellCheck={false}
             autoComplete="off"
@@ -593,191 +1218,524 @@ export default function SqlQueryInterface() {
               wordWrap: "break-word",
             }}
           >
-            {currentTab?.content.split("\n").map((line, i) => (
+            {editorLines.map((line, i) => (
               <div key={i} style={{ display: "flex" }}>
                 <span
-                  className="select-none text-gray-400 mr-2"
+                  className={`select-none mr-2 ${
+                    diagnosticLines.has(i + 1)
+                      ? "text-red-500 font-bold"
+                      : "text-gray-400"
+                  }`}
                   style={{
                     width: "3em",
                     textAlign: "right",
                     userSelect: "none",
                   }}
                 >
+                  {diagnosticLines.has(i + 1) && "\u25CF "}
                   {i + 1}
                 </span>
                 <span
-                  dangerouslySetInnerHTML={{ __html: highlightSQL(line) }}
+                  dangerouslySetInnerHTML={{
+                    __html: line,
+                  }}
                   style={{ flex: 1 }}
                 />
               </div>
             ))}
           </pre>
+          {completion && (
+            <CompletionPopup
+              items={completion.items}
+              selectedIndex={completion.selectedIndex}
+              position={completion.position}
+              onSelect={acceptCompletion}
+              onHover={(selectedIndex) =>
+                setCompletion({ ...completion, selectedIndex })
+              }
+            />
+          )}
         </div>
+        {diagnostics.length > 0 && (
+          <ul className="mt-1 text-xs text-red-500 text-left font-mono">
+            {diagnostics.map((diagnostic) => (
+              <li key={diagnostic.start}>
+                <button
+                  className="hover:underline"
+                  onClick={() => {
+                    textareaRef.current?.focus();
+                    textareaRef.current?.setSelectionRange(
+                      diagnostic.start,
+                      diagnostic.end
+                    );
+                  }}
+                >
+                  Ln {diagnostic.line}, Col {diagnostic.column}:{" "}
+                  {diagnostic.message}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
 
         {/* Table Section */}
-        {currentTab?.queryResult || isLoading ? (
+        {currentTab?.results.length || isLoading ? (
           <div className="mt-4">
-            <div className="border rounded-lg">
-              <div className="max-h-96 overflow-auto">
-                <Table className="table-auto w-full">
-                  <TableHeader>
-                    <TableRow>
-                      {isLoading ? (
-                        <TableHead
-                          className="relative font-normal text-left text-black text-[15px]"
-                          colSpan={1000} // Arbitrary large number to span all columns
-                        >
-                          <div className="flex items-center">
-                            <TbDatabaseSearch className="mr-2" />
-                            Executing
-                          </div>
-                        </TableHead>
-                      ) : (
-                        currentTab.queryResult!.columns.map(
-                          (column, index) => (
+            {(currentTab.results.length > 1 ||
+              currentTab.skippedStatements > 0 ||
+              (isLoading && currentTab.results.length > 0)) && (
+              <div className="flex flex-wrap items-center gap-1 mb-2">
+                {currentTab.results.map((result, index) => (
+                  <button
+                    key={index}
+                    onClick={() => setActiveResult(currentTab.id, index)}
+                    title={result.statement}
+                    className={`flex items-center px-2 py-1 text-xs rounded border ${
+                      index === currentTab.activeResultIndex
+                        ? "border-[#0c9abc] bg-[#0c9abc]/10"
+                        : "border-gray-200 hover:bg-gray-100"
+                    }`}
+                  >
+                    {isLoading &&
+                    progress?.rows != null &&
+                    index === progress.statement - 1 ? (
+                      <Loader2 className="mr-1 w-3 h-3 animate-spin text-[#0c9abc]" />
+                    ) : isCancelled(result.response) ? (
+                      <Ban className="mr-1 w-3 h-3 text-gray-400" />
+                    ) : result.response.kind === "error" ? (
+                      <BsExclamationOctagon className="mr-1 w-3 h-3 text-red-500" />
+                    ) : (
+                      <CheckCircle2 className="mr-1 w-3 h-3 text-green-600" />
+                    )}
+                    <span className="max-w-[12rem] truncate">
+                      {index + 1}. {result.statement}
+                    </span>
+                    <span className="ml-2 text-gray-400">
+                      {result.response.kind === "resultSet"
+                        ? `${result.response.rows.length} rows, `
+                        : ""}
+                      {result.executionTime.toFixed(0)} ms
+                    </span>
+                  </button>
+                ))}
+                {isLoading && progress?.rows == null && (
+                  <span className="flex items-center px-2 py-1 text-xs text-gray-500">
+                    <TbDatabaseSearch className="mr-1" />
+                    Running statement {currentTab.results.length + 1}...
+                  </span>
+                )}
+                {currentTab.skippedStatements > 0 && (
+                  <span className="px-2 py-1 text-xs text-gray-500">
+                    {isCancelled(
+                      currentTab.results[currentTab.results.length - 1]
+                        .response
+                    )
+                      ? "Cancelled"
+                      : "Stopped on error"}
+                    , {currentTab.skippedStatements} statement
+                    {currentTab.skippedStatements !== 1 ? "s" : ""} skipped
+                  </span>
+                )}
+              </div>
+            )}
+            {resultSet && (
+              <div className="flex items-center gap-2 mb-2">
+                <div className="relative">
+                  <Search className="absolute left-2 top-1/2 -translate-y-1/2 w-3 h-3 text-gray-400" />
+                  <Input
+                    value={gridView.search}
+                    onChange={(e) =>
+                      updateGridView({ search: e.target.value })
+                    }
+                    onKeyDown={(e) => {
+                      if (e.key === "Escape" && gridView.search) {
+                        e.preventDefault();
+                        updateGridView({ search: "" });
+                      }
+                    }}
+                    placeholder="Search results"
+                    aria-label="Search results"
+                    className="h-7 w-56 pl-7 text-xs"
+                  />
+                </div>
+                <Button
+                  onClick={() =>
+                    updateGridView({ showFilters: !gridView.showFilters })
+                  }
+                  variant={gridView.showFilters ? "secondary" : "ghost"}
+                  size="sm"
+                  className="h-7 text-xs"
+                  title="Show a filter for each column under the headers"
+                >
+                  <Filter className="mr-1 w-3 h-3" />
+                  Filters
+                  {activeFilterCount > 0 && ` (${activeFilterCount})`}
+                </Button>
+                {isFiltering && (
+                  <Button
+                    onClick={() => updateGridView({ filters: [], search: "" })}
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 text-xs"
+                  >
+                    <X className="mr-1 w-3 h-3" />
+                    Clear filters
+                  </Button>
+                )}
+                {canChart(resultSet.columns) && (
+                  <Button
+                    onClick={() =>
+                      updateGridView({ showChart: !gridView.showChart })
+                    }
+                    variant={gridView.showChart ? "secondary" : "ghost"}
+                    size="sm"
+                    className="h-7 text-xs"
+                    title="Show the results as a chart"
+                    aria-pressed={gridView.showChart}
+                  >
+                    <BarChart3 className="mr-1 w-3 h-3" />
+                    Chart
+                  </Button>
+                )}
+                <CompareMenu
+                  tabs={tabs}
+                  currentTabId={currentTab.id}
+                  comparing={comparison !== undefined}
+                  onSnapshot={takeSnapshot}
+                  onCompare={(source) =>
+                    updateComparison({ source, keyColumn: null })
+                  }
+                  onStopComparing={() => updateComparison(null)}
+                />
+                {containerTargets.length > 0 && (
+                  <div className="ml-auto">
+                    <ContainerActionsBar
+                      actions={containerActions}
+                      targets={containerTargets}
+                    />
+                  </div>
+                )}
+              </div>
+            )}
+            <div className="flex gap-2">
+              <div className="flex-1 min-w-0 border rounded-lg">
+                {resultSet && comparison ? (
+                  resultDiff && diffKey !== null ? (
+                    <ResultsDiff
+                      diff={resultDiff}
+                      keyColumn={diffKey}
+                      keyColumns={diffKeyColumns}
+                      onKeyColumnChange={(keyColumn) =>
+                        updateComparison({ ...comparison, keyColumn })
+                      }
+                      beforeLabel={compareLabel}
+                      afterLabel={currentTab.name}
+                    />
+                  ) : (
+                    <p className="p-2 text-xs text-gray-500">
+                      {compareResult
+                        ? "The results have no column in common to compare."
+                        : "The result to compare with is no longer there."}
+                    </p>
+                  )
+                ) : resultSet && showChart ? (
+                  <ResultsChart
+                    result={{ columns: resultSet.columns, rows: displayedRows }}
+                    config={
+                      gridView.chart ?? defaultChartConfig(resultSet.columns)
+                    }
+                    onConfigChange={(chart) => updateGridView({ chart })}
+                    fileBaseName={currentTab.name}
+                  />
+                ) : resultSet ? (
+                  <ContainerActionsContext.Provider value={containerActions}>
+                    <ResultsGrid
+                      // Remounted per result so each restores its own scroll
+                      key={resultKey}
+                      resultSet={resultSet}
+                      rows={displayedRows}
+                      view={gridView}
+                      onViewChange={updateGridView}
+                      activeRow={inspectedIndex}
+                      changedCells={watchChanges}
+                      onRowClick={inspectRow}
+                    />
+                  </ContainerActionsContext.Provider>
+                ) : (
+                  <div className="max-h-96 overflow-auto">
+                    <Table className="table-auto w-full">
+                      <TableHeader>
+                        <TableRow>
+                          {!activeResponse ? (
                             <TableHead
-                              key={index}
-                              className={`relative cursor-pointer font-normal text-left ${
-                                index !==
-                                currentTab.queryResult!.columns.length - 1
-                                  ? "border-r border-gray-300"
-                                  : ""
-                              } text-black text-[15px]`}
-                              style={{
-                                width: columnWidths[index] || "auto",
-                                minWidth: columnWidths[index] || 50,
-                              }}
+                              className="relative font-normal text-left text-black text-[15px]"
+                              colSpan={1000} // Arbitrary large number to span all columns
                             >
-                              <div className="flex items-center justify-between w-full">
-                                <div className="flex items-center">
-                                  {getTypeIcon(column.type)}
-                                  {column.name && (
-                                    <span
-                                      onClick={() => handleSort(index)}
-                                      className="ml-2 cursor-pointer"
-                                    >
-                                      {column.name}
-                                    </span>
-                                  )}
-                                </div>
-
-                                {column.name && (
-                                  <button
-                                    onClick={() => handleSort(index)}
-                                    className="ml-2 p-1 focus:outline-none"
-                                    aria-label={`Sort by ${column.name}`}
-                                  >
-                                    {sortConfig?.key === index ? (
-                                      sortConfig.direction === "asc" ? (
-                                        <ChevronUp className="w-3 h-3" />
-                                      ) : (
-                                        <ChevronDownIcon className="w-3 h-3" />
-                                      )
-                                    ) : (
-                                      <ChevronDownIcon className="w-3 h-3 rotate-180" />
-                                    )}
-                                  </button>
-                                )}
+                              <div className="flex items-center">
+                                <TbDatabaseSearch className="mr-2" />
+                                Executing
                               </div>
-
-                              <div
-                                onMouseDown={(e) => handleMouseDown(e, index)}
-                                className="absolute right-0 top-0 h-full w-2 cursor-col-resize"
-                              />
                             </TableHead>
-                          )
-                        )
-                      )}
-                    </TableRow>
-                  </TableHeader>
-                  <TableBody>
-                    {isLoading ? (
-                      <TableRow>
-                        <TableCell
-                          className="text-left"
-                          colSpan={1000} // Arbitrary large number to span all columns
-                        >
-                          <p>The query is currently running</p>
-                        </TableCell>
-                      </TableRow>
-                    ) : currentTab.queryResult!.columns.length === 1 &&
-                      currentTab.queryResult!.columns[0].name === "" &&
-                      currentTab.queryResult!.rows.length > 0 ? (
-                      <TableRow>
-                        <TableCell
-                          className="text-left"
-                          colSpan={currentTab.queryResult!.columns.length}
-                        >
-                          <div className="flex items-center text-red-500">
-                            <BsExclamationOctagon className="mr-2 w-5 h-5" />
-                            {currentTab.queryResult!.rows[0][0]}
-                          </div>
-                        </TableCell>
-                      </TableRow>
-                    ) : (
-                      currentTab.queryResult!.rows.map((row, rowIndex) => (
-                        <TableRow key={rowIndex}>
-                          {row.map((cell, cellIndex) => (
+                          ) : (
+                            <TableHead />
+                          )}
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {!activeResponse ? (
+                          <TableRow>
                             <TableCell
-                              key={cellIndex}
-                              className={`text-left ${
-                                cellIndex !==
-                                currentTab.queryResult!.columns.length - 1
-                                  ? "border-r border-gray-200"
-                                  : ""
-                              }`}
-                              style={{
-                                width: columnWidths[cellIndex] || "auto",
-                                minWidth: columnWidths[cellIndex] || 50,
-                              }}
+                              className="text-left"
+                              colSpan={1000} // Arbitrary large number to span all columns
                             >
-                              {cell}
+                              <p>The query is currently running</p>
                             </TableCell>
-                          ))}
-                        </TableRow>
-                      ))
-                    )}
-                  </TableBody>
-                </Table>
+                          </TableRow>
+                        ) : isCancelled(activeResponse) ? (
+                          <TableRow>
+                            <TableCell className="text-left">
+                              <div className="flex items-center text-gray-500">
+                                <Ban className="mr-2 w-5 h-5" />
+                                Query cancelled after{" "}
+                                {(activeResult.executionTime / 1000).toFixed(1)} s
+                              </div>
+                            </TableCell>
+                          </TableRow>
+                        ) : activeResponse.kind === "error" ? (
+                          <TableRow>
+                            <TableCell className="text-left">
+                              <div className="flex items-center text-red-500">
+                                <BsExclamationOctagon className="mr-2 w-5 h-5" />
+                                {activeResponse.message}
+                              </div>
+                              <p className="mt-1 ml-7 text-xs text-gray-500">
+                                {[
+                                  activeResponse.code,
+                                  activeResponse.httpStatus !== undefined
+                                    ? `HTTP ${activeResponse.httpStatus}`
+                                    : null,
+                                  activeResponse.position
+                                    ? describeErrorPosition(
+                                        activeResponse.position
+                                      )
+                                    : null,
+                                ]
+                                  .filter(Boolean)
+                                  .join(" | ")}
+                              </p>
+                              {activeResponse.details && (
+                                <details className="mt-1 ml-7 text-xs text-gray-500">
+                                  <summary className="cursor-pointer">
+                                    Details
+                                  </summary>
+                                  <pre className="mt-1 whitespace-pre-wrap break-all">
+                                    {activeResponse.details}
+                                  </pre>
+                                </details>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        ) : activeResponse.kind === "ack" ? (
+                          <TableRow>
+                            <TableCell className="text-left">
+                              <div className="flex items-center text-green-700">
+                                <CheckCircle2 className="mr-2 w-5 h-5" />
+                                {activeResponse.message ??
+                                  "Statement executed successfully"}
+                              </div>
+                            </TableCell>
+                          </TableRow>
+                        ) : null}
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
               </div>
+              {resultSet &&
+                !showChart &&
+                !comparison &&
+                inspectedIndex !== null && (
+                  <RowInspector
+                    columns={resultSet.columns}
+                    row={displayedRows[inspectedIndex]}
+                    rowIndex={inspectedIndex}
+                    rowCount={displayedRows.length}
+                    onNavigate={inspectRow}
+                    onClose={closeInspector}
+                  />
+                )}
             </div>
             {/* Progress Bar */}
             {isLoading ? (
               <div className="mt-2 flex items-center">
                 <p className="text-sm text-gray-500 flex items-center mr-2">
-                  <GoHistory className="mr-2 w-4 h-4" />
-                  Processing query...
+                  {progress?.event ? (
+                    <GoHistory className="mr-2 w-4 h-4" />
+                  ) : (
+                    // The server does not stream, so there is nothing to
+                    // measure; just show that work is going on
+                    <Loader2 className="mr-2 w-4 h-4 animate-spin" />
+                  )}
+                  {progress && progress.total > 1
+                    ? `Statement ${progress.statement} of ${progress.total}: `
+                    : ""}
+                  {progress?.event
+                    ? progress.event.message ??
+                      progress.event.phase.replace(/_/g, " ")
+                    : "Processing query..."}
+                  {progress?.rows != null &&
+                    ` | ${progress.rows} row${
+                      progress.rows !== 1 ? "s" : ""
+                    } received`}
                 </p>
-                <div
-                  className="relative rounded-full overflow-hidden"
-                  style={{
-                    width: "25%", // Adjusted progress bar to 25% of its original length
-                    height: "1rem", // Increased height to match font size (~16px)
-                    backgroundColor: "#e5e7eb", // Tailwind's gray-200
-                  }}
-                >
+                {progress?.event && (
                   <div
-                    className="h-full"
+                    className="relative rounded-full overflow-hidden"
                     style={{
-                      width: `${progress}%`,
-                      backgroundColor: "#0c9abc", // Same blue as the Run button
-                      transition: "width 0.5s ease-in-out",
+                      width: "25%", // Adjusted progress bar to 25% of its original length
+                      height: "1rem", // Increased height to match font size (~16px)
+                      backgroundColor: "#e5e7eb", // Tailwind's gray-200
                     }}
-                  ></div>
-                </div>
+                  >
+                    <div
+                      className="h-full"
+                      style={{
+                        // Completed statements plus the current one's share
+                        width: `${
+                          ((progress.statement -
+                            1 +
+                            (progress.event.percent ?? 0) / 100) /
+                            progress.total) *
+                          100
+                        }%`,
+                        backgroundColor: "#0c9abc", // Same blue as the Run button
+                        transition: "width 0.5s ease-in-out",
+                      }}
+                    ></div>
+                  </div>
+                )}
+                {progress?.rows != null && (
+                  <Button
+                    onClick={stopFetching}
+                    variant="outline"
+                    size="sm"
+                    className="ml-2 h-7 text-xs"
+                    title="Keep the rows received so far and stop fetching"
+                  >
+                    <FaRegCircleStop className="mr-1" />
+                    Stop fetching
+                  </Button>
+                )}
+              </div>
+            ) : activeResult && (
+              <div className="mt-2 flex items-center">
+                <p className="text-sm text-gray-500 flex items-center">
+                  <GoClock className="mr-2 w-4 h-4" />
+                  {activeResult.executionTime.toFixed(0)} ms
+                  {resultSet
+                    ? ` | ${
+                        isFiltering ? `${displayedRows.length} of ` : ""
+                      }${resultSet.rows.length} row${
+                        resultSet.rows.length !== 1 ? "s" : ""
+                      } ${isFiltering ? "shown" : "returned"}${
+                        resultSet.truncated ? " (fetching stopped)" : ""
+                      }`
+                    : activeResponse?.kind === "ack" &&
+                      activeResponse.affected !== undefined
+                    ? ` | ${activeResponse.affected} affected`
+                    : ""}
+                </p>
+                {resultSet && (
+                  <div className="ml-auto flex items-center">
+                    {gridView.sort.length > 0 && (
+                      <Button
+                        onClick={() => updateGridView({ sort: [] })}
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 text-xs"
+                        title="Show the rows in the order the server sent them"
+                      >
+                        <ArrowUpDown className="mr-1 w-3 h-3" />
+                        Original order
+                      </Button>
+                    )}
+                    <ColumnsMenu
+                      columns={resultSet.columns}
+                      view={gridView}
+                      onViewChange={updateGridView}
+                    />
+                    <ExportMenu
+                      getResult={getDisplayedResult}
+                      fileBaseName={currentTab.name}
+                    />
+                  </div>
+                )}
               </div>
-            ) : currentTab.executionTime !== null && (
-              <p className="mt-2 text-sm text-gray-500 flex items-center">
-                <GoClock className="mr-2 w-4 h-4" />
-                {currentTab.executionTime.toFixed(0)} ms |{" "}
-                {currentTab.queryResult!.rows.length} row
-                {currentTab.queryResult!.rows.length !== 1 ? "s" : ""} returned
-              </p>
             )}
           </div>
         ) : null}
       </div>
 
+      {sidePanel === "history" && (
+        <HistoryPanel
+          history={history}
+          connections={connections}
+          onOpenInNewTab={(entry) =>
+            openInNewTab(entry.query, entry.connectionId)
+          }
+          onRerun={(entry) =>
+            currentTab
+              ? runQuery(entry.query, { connectionId: entry.connectionId })
+              : openInNewTab(entry.query, entry.connectionId)
+          }
+          onDelete={deleteHistoryEntry}
+          onClear={clearHistory}
+          onClose={() => setSidePanel(null)}
+          disabled={isLoading}
+        />
+      )}
+
+      {sidePanel === "library" && (
+        <SavedQueriesPanel
+          savedQueries={savedQueries}
+          onSaveCurrent={() =>
+            setSavingQuery({
+              name: currentTab?.name ?? "",
+              folder: "",
+              tags: [],
+              description: "",
+              query: currentTab?.content ?? "",
+            })
+          }
+          onInsert={(entry) => insertAtCursor(entry.query)}
+          onOpenInNewTab={(entry) =>
+            openInNewTab(entry.query, activeConnection.id)
+          }
+          onEdit={setSavingQuery}
+          onDelete={deleteSavedQuery}
+          onImport={importSavedQueries}
+          onClose={() => setSidePanel(null)}
+        />
+      )}
+
+      {savingQuery && (
+        <SaveQueryDialog
+          entry={savingQuery}
+          folders={Array.from(
+            new Set(savedQueries.map((entry) => entry.folder).filter(Boolean))
+          )}
+          onSave={(entry) => {
+            if ("id" in savingQuery) {
+              updateSavedQuery({ ...savingQuery, ...entry });
+            } else {
+              addSavedQuery(entry);
+            }
+            setSavingQuery(null);
+          }}
+          onClose={() => setSavingQuery(null)}
+        />
+      )}
+
       {/* ====== Dialog Component ====== */}
       {isDialogOpen && (
         <div
@@ -797,6 +1755,16 @@ export default function SqlQueryInterface() {
         </div>
       )}
       {/* ====== End of Dialog Component ====== */}
+
+      {isConnectionDialogOpen && (
+        <ConnectionManagerDialog
+          connections={connections}
+          onAdd={addConnection}
+          onUpdate={updateConnection}
+          onDelete={deleteConnection}
+          onClose={() => setIsConnectionDialogOpen(false)}
+        />
+      )}
     </div>
   );
 }
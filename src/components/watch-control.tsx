@@ -0,0 +1,55 @@
+import { Eye, EyeOff } from "lucide-react";
+import { WATCH_INTERVALS, WatchState } from "@/lib/watch";
+
+interface WatchControlProps {
+  watch: WatchState | undefined;
+  isPaused: boolean; // The page is hidden
+  onStart: (intervalSeconds: number) => void;
+  onStop: () => void;
+}
+
+// Picks how often the tab's query re-runs, and tells whether watching is
+// paused or why it stopped.
+export function WatchControl({
+  watch,
+  isPaused,
+  onStart,
+  onStop,
+}: WatchControlProps) {
+  const isWatching = watch !== undefined && watch.stopped === null;
+  return (
+    <div className="flex items-center text-sm text-gray-600">
+      {isWatching ? (
+        <Eye className="mr-1 w-4 h-4 text-[#0c9abc]" />
+      ) : (
+        <EyeOff className="mr-1 w-4 h-4" />
+      )}
+      <select
+        className="h-9 rounded-md border border-input px-2 text-sm text-gray-600 bg-transparent"
+        value={isWatching ? watch.intervalSeconds : ""}
+        onChange={(e) =>
+          e.target.value === "" ? onStop() : onStart(Number(e.target.value))
+        }
+        title="Re-run the tab's query on an interval and highlight what changed"
+      >
+        <option value="">Watch off</option>
+        {WATCH_INTERVALS.map((seconds) => (
+          <option key={seconds} value={seconds}>
+            Watch every {seconds} s
+          </option>
+        ))}
+      </select>
+      {isWatching && isPaused && (
+        <span className="ml-2 text-xs text-gray-500">Paused</span>
+      )}
+      {isWatching && watch.failures > 0 && (
+        <span className="ml-2 text-xs text-amber-600">
+          {watch.failures} failed run{watch.failures !== 1 ? "s" : ""}
+        </span>
+      )}
+      {watch?.stopped && (
+        <span className="ml-2 text-xs text-red-600">{watch.stopped}</span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import { useEffect, useMemo, useState } from "react";
+import { CompletionSources } from "@/lib/completion";
+import { ConnectionProfile } from "@/lib/connections";
+import { parseQueryResponse } from "@/lib/protocol";
+import { createTransport } from "@/lib/transport";
+import { Tab } from "@/lib/workspace";
+
+// Used until the backend has answered, or when it cannot list its tables
+const DEFAULT_TABLES = ["containers"];
+
+// Runs a single-column query and returns its values, or null on any error.
+// Completion is best-effort, so failures are not reported to the user.
+const fetchNames = async (
+  connection: ConnectionProfile,
+  query: string,
+  signal: AbortSignal
+) => {
+  try {
+    const response = parseQueryResponse(
+      await createTransport(connection).execute({ query, signal })
+    );
+    return response.kind === "resultSet"
+      ? response.rows.map((row) => String(row[0]))
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+// Collects the names offered by autocomplete: tables and containers from
+// the active connection, refreshed whenever `refreshKey` changes, and
+// column names from the results already on screen. Each refresh sends two
+// queries, so `refreshKey` should change only when those names may have.
+export function useCompletionSources(
+  connection: ConnectionProfile,
+  tabs: Tab[],
+  refreshKey: unknown
+): CompletionSources {
+  const [tables, setTables] = useState<string[]>(DEFAULT_TABLES);
+  const [containers, setContainers] = useState<string[]>([]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetchNames(connection, "SHOW TABLES", controller.signal).then((names) => {
+      if (!controller.signal.aborted) setTables(names ?? DEFAULT_TABLES);
+    });
+    fetchNames(
+      connection,
+      "SELECT name FROM containers",
+      controller.signal
+    ).then((names) => {
+      if (!controller.signal.aborted) setContainers(names ?? []);
+    });
+    return () => controller.abort();
+  }, [connection, refreshKey]);
+
+  // Computed columns such as "count(*)" are not worth suggesting
+  const columns = useMemo(() => {
+    const names = tabs.flatMap((tab) =>
+      tab.results.flatMap((result) =>
+        result.response.kind === "resultSet"
+          ? result.response.columns.map((column) => column.name)
+          : []
+      )
+    );
+    return Array.from(new Set(names)).filter((name) =>
+      /^[A-Za-z_]\w*$/.test(name)
+    );
+  }, [tabs]);
+
+  return { tables, columns, containers };
+}
@@ -0,0 +1,53 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  ConnectionProfile,
+  DEFAULT_CONNECTION,
+  loadConnections,
+  saveConnections,
+} from "@/lib/connections";
+
+export function useConnections() {
+  const [connections, setConnections] =
+    useState<ConnectionProfile[]>(loadConnections);
+
+  useEffect(() => {
+    saveConnections(connections);
+  }, [connections]);
+
+  const addConnection = useCallback(
+    (profile: Omit<ConnectionProfile, "id">) => {
+      const newProfile = { ...profile, id: Date.now().toString() };
+      setConnections((prev) => [...prev, newProfile]);
+      return newProfile;
+    },
+    []
+  );
+
+  const updateConnection = useCallback((profile: ConnectionProfile) => {
+    setConnections((prev) =>
+      prev.map((existing) => (existing.id === profile.id ? profile : existing))
+    );
+  }, []);
+
+  // The last remaining profile cannot be deleted; the UI always needs one.
+  const deleteConnection = useCallback((id: string) => {
+    setConnections((prev) => {
+      const remaining = prev.filter((profile) => profile.id !== id);
+      return remaining.length > 0 ? remaining : [DEFAULT_CONNECTION];
+    });
+  }, []);
+
+  const getConnection = useCallback(
+    (id: string | undefined) =>
+      connections.find((profile) => profile.id === id) ?? connections[0],
+    [connections]
+  );
+
+  return {
+    connections,
+    addConnection,
+    updateConnection,
+    deleteConnection,
+    getConnection,
+  };
+}
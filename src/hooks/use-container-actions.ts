@@ -0,0 +1,170 @@
+import { createContext, useCallback, useState } from "react";
+import { ConnectionProfile } from "@/lib/connections";
+import {
+  ContainerAction,
+  actionStatement,
+  stateAfter,
+} from "@/lib/container-actions";
+import { HistoryEntry } from "@/lib/history";
+import {
+  QueryResponse,
+  parseQueryResponse,
+  toQueryError,
+} from "@/lib/protocol";
+import { createTransport } from "@/lib/transport";
+
+// Outcome of the last action run on a container, shown next to its name
+export interface ContainerActionStatus {
+  action: ContainerAction;
+  status: "pending" | "success" | "error";
+  message?: string;
+}
+
+// A container an action is run on, with the state its rows show
+export interface ActionTarget {
+  name: string;
+  state: string | null;
+}
+
+// The result whose rows actions are run from
+export interface ActionScope {
+  tabId: string;
+  resultIndex: number;
+}
+
+// Selections and outcomes of one result's containers
+interface ScopeState {
+  statuses: Record<string, ContainerActionStatus>;
+  selected: string[];
+}
+
+const EMPTY_SCOPE: ScopeState = { statuses: {}, selected: [] };
+
+interface ContainerActionsOptions {
+  connection: ConnectionProfile;
+  scope: ActionScope;
+  // Shows `state` in the rows about container `name` and returns a function
+  // that puts those rows back as they were
+  onStateChange: (name: string, state: string) => () => void;
+  onExecuted: (entry: Omit<HistoryEntry, "id">) => void;
+}
+
+// Runs lifecycle statements for containers picked in the results, updating
+// their rows ahead of the server's answer and undoing that when it fails.
+// Also holds which containers are selected for bulk actions. Both are kept
+// per tab and result, and the ones returned are those of `scope`.
+export function useContainerActions({
+  connection,
+  scope,
+  onStateChange,
+  onExecuted,
+}: ContainerActionsOptions) {
+  const [scopes, setScopes] = useState<
+    Record<string, Record<number, ScopeState>>
+  >({});
+  const { tabId, resultIndex } = scope;
+  const { statuses, selected } = scopes[tabId]?.[resultIndex] ?? EMPTY_SCOPE;
+
+  const updateScope = (
+    { tabId, resultIndex }: ActionScope,
+    update: (state: ScopeState) => ScopeState
+  ) =>
+    setScopes((prev) => ({
+      ...prev,
+      [tabId]: {
+        ...prev[tabId],
+        [resultIndex]: update(prev[tabId]?.[resultIndex] ?? EMPTY_SCOPE),
+      },
+    }));
+
+  // Targets run one after another, as a server may not cope with many
+  // lifecycle changes at once.
+  const runAction = async (
+    action: ContainerAction,
+    targets: ActionTarget[]
+  ) => {
+    // Outcomes land in the result the action was run from, even when
+    // another is on display by the time they arrive
+    const runScope = scope;
+    const setStatus = (name: string, status: ContainerActionStatus) =>
+      updateScope(runScope, (prev) => ({
+        ...prev,
+        statuses: { ...prev.statuses, [name]: status },
+      }));
+    const transport = createTransport(connection);
+    for (const { name } of targets) {
+      const query = actionStatement(action, name);
+      const startTime = performance.now();
+      setStatus(name, { action, status: "pending" });
+      const restore = onStateChange(name, stateAfter(action));
+
+      let response: QueryResponse;
+      try {
+        response = parseQueryResponse(await transport.execute({ query }));
+      } catch (error) {
+        response = toQueryError(error);
+      }
+
+      const failed = response.kind === "error";
+      if (failed) restore();
+      setStatus(name, {
+        action,
+        status: failed ? "error" : "success",
+        message:
+          response.kind === "error" || response.kind === "ack"
+            ? response.message
+            : undefined,
+      });
+      onExecuted({
+        query,
+        executedAt: new Date().toISOString(),
+        connectionId: connection.id,
+        connectionName: connection.name,
+        durationMs: performance.now() - startTime,
+        rowCount: response.kind === "ack" ? (response.affected ?? null) : null,
+        status: failed ? "error" : "success",
+        errorMessage: response.kind === "error" ? response.message : undefined,
+      });
+    }
+  };
+
+  const setSelected = (names: string[]) =>
+    updateScope(scope, (prev) => ({ ...prev, selected: names }));
+
+  const toggleSelected = (name: string) =>
+    updateScope(scope, (prev) => ({
+      ...prev,
+      selected: prev.selected.includes(name)
+        ? prev.selected.filter((selectedName) => selectedName !== name)
+        : [...prev.selected, name],
+    }));
+
+  // Forgets the selections and outcomes of a tab's results, e.g. when new
+  // results replace its rows
+  const reset = useCallback(
+    (tabId: string) =>
+      setScopes((prev) => {
+        const rest = { ...prev };
+        delete rest[tabId];
+        return rest;
+      }),
+    []
+  );
+
+  return {
+    statuses,
+    selected,
+    setSelected,
+    toggleSelected,
+    runAction,
+    reset,
+  };
+}
+
+export type ContainerActions = ReturnType<typeof useContainerActions>;
+
+// Lets the CONTAINER cells of the results grid offer actions; cells
+// rendered outside a provider show the container only.
+export const ContainerActionsContext = createContext<ContainerActions | null>(
+  null
+);
@@ -0,0 +1,32 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  HistoryEntry,
+  loadHistory,
+  pruneHistory,
+  saveHistory,
+} from "@/lib/history";
+
+let nextEntryId = 0;
+
+export function useQueryHistory() {
+  const [history, setHistory] = useState<HistoryEntry[]>(loadHistory);
+
+  useEffect(() => {
+    saveHistory(history);
+  }, [history]);
+
+  const addEntry = useCallback((entry: Omit<HistoryEntry, "id">) => {
+    const id = `${Date.now()}-${nextEntryId++}`;
+    setHistory((prev) => pruneHistory([{ ...entry, id }, ...prev]));
+  }, []);
+
+  const deleteEntry = useCallback((id: string) => {
+    setHistory((prev) => prev.filter((entry) => entry.id !== id));
+  }, []);
+
+  const clearHistory = useCallback(() => {
+    setHistory([]);
+  }, []);
+
+  return { history, addEntry, deleteEntry, clearHistory };
+}
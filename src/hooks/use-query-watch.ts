@@ -0,0 +1,106 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { MAX_WATCH_FAILURES, WatchState, watchBlocker } from "@/lib/watch";
+import { Tab } from "@/lib/workspace";
+
+interface QueryWatchOptions {
+  activeTab: string;
+  isLoading: boolean;
+  getTab: (tabId: string) => Tab | undefined;
+  // Runs the active tab's query; resolves to whether every statement
+  // succeeded
+  run: () => Promise<boolean>;
+}
+
+// Re-runs the query of watched tabs on their interval. Only the active tab
+// runs, and only while the page is visible; the next run is timed from the
+// end of the last, so runs never overlap.
+export function useQueryWatch({
+  activeTab,
+  isLoading,
+  getTab,
+  run,
+}: QueryWatchOptions) {
+  const [watches, setWatches] = useState<Record<string, WatchState>>({});
+  const [isPageVisible, setIsPageVisible] = useState(() => !document.hidden);
+  const latest = useRef({ getTab, run });
+
+  useEffect(() => {
+    latest.current = { getTab, run };
+  });
+
+  useEffect(() => {
+    const handleVisibilityChange = () => setIsPageVisible(!document.hidden);
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    return () =>
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+  }, []);
+
+  const updateWatch = useCallback(
+    (tabId: string, update: (watch: WatchState) => WatchState) =>
+      setWatches((prev) =>
+        prev[tabId] ? { ...prev, [tabId]: update(prev[tabId]) } : prev
+      ),
+    []
+  );
+
+  const watch = watches[activeTab];
+  const intervalSeconds =
+    watch && watch.stopped === null ? watch.intervalSeconds : null;
+
+  useEffect(() => {
+    if (intervalSeconds === null || isLoading || !isPageVisible) return;
+    const tabId = activeTab;
+    const timeoutId = setTimeout(async () => {
+      const tab = latest.current.getTab(tabId);
+      // The query may have been edited since watching started
+      const blocker = tab ? watchBlocker(tab.content) : "The tab was closed.";
+      if (blocker) {
+        updateWatch(tabId, (current) => ({ ...current, stopped: blocker }));
+        return;
+      }
+      updateWatch(tabId, (current) => ({
+        ...current,
+        previous: tab!.results,
+      }));
+      const succeeded = await latest.current.run();
+      updateWatch(tabId, (current) => {
+        const failures = succeeded ? 0 : current.failures + 1;
+        return {
+          ...current,
+          failures,
+          stopped:
+            failures >= MAX_WATCH_FAILURES
+              ? `Stopped after ${failures} failed runs in a row.`
+              : null,
+        };
+      });
+    }, intervalSeconds * 1000);
+    return () => clearTimeout(timeoutId);
+  }, [activeTab, intervalSeconds, isLoading, isPageVisible, updateWatch]);
+
+  const startWatch = useCallback(
+    (tabId: string, intervalSeconds: number) =>
+      setWatches((prev) => ({
+        ...prev,
+        [tabId]: {
+          intervalSeconds,
+          failures: 0,
+          stopped: null,
+          previous: prev[tabId]?.previous ?? null,
+        },
+      })),
+    []
+  );
+
+  const stopWatch = useCallback(
+    (tabId: string) =>
+      setWatches((prev) => {
+        const rest = { ...prev };
+        delete rest[tabId];
+        return rest;
+      }),
+    []
+  );
+
+  return { watches, isPageVisible, startWatch, stopWatch };
+}
@@ -0,0 +1,58 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  SavedQuery,
+  importLibrary,
+  loadSavedQueries,
+  saveSavedQueries,
+} from "@/lib/saved-queries";
+
+export function useSavedQueries() {
+  const [savedQueries, setSavedQueries] =
+    useState<SavedQuery[]>(loadSavedQueries);
+
+  useEffect(() => {
+    saveSavedQueries(savedQueries);
+  }, [savedQueries]);
+
+  const addSavedQuery = useCallback(
+    (entry: Omit<SavedQuery, "id" | "updatedAt">) => {
+      const newEntry = {
+        ...entry,
+        id: Date.now().toString(),
+        updatedAt: new Date().toISOString(),
+      };
+      setSavedQueries((prev) => [...prev, newEntry]);
+      return newEntry;
+    },
+    []
+  );
+
+  const updateSavedQuery = useCallback((entry: SavedQuery) => {
+    const updated = { ...entry, updatedAt: new Date().toISOString() };
+    setSavedQueries((prev) =>
+      prev.map((existing) => (existing.id === entry.id ? updated : existing))
+    );
+  }, []);
+
+  const deleteSavedQuery = useCallback((id: string) => {
+    setSavedQueries((prev) => prev.filter((entry) => entry.id !== id));
+  }, []);
+
+  // Throws with a user-facing message when the file cannot be imported.
+  const importSavedQueries = useCallback(
+    (fileContent: string) => {
+      const result = importLibrary(savedQueries, fileContent);
+      setSavedQueries(result.queries);
+      return result;
+    },
+    [savedQueries]
+  );
+
+  return {
+    savedQueries,
+    addSavedQuery,
+    updateSavedQuery,
+    deleteSavedQuery,
+    importSavedQueries,
+  };
+}
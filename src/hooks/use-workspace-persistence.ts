@@ -0,0 +1,29 @@
+import { useEffect, useRef } from "react";
+import { Tab, WorkspaceSettings, saveWorkspace } from "@/lib/workspace";
+
+const SAVE_DEBOUNCE_MS = 500;
+
+// Saves the workspace shortly after it stops changing, and once more when
+// the page is closed so the last keystrokes are not lost.
+export function useWorkspacePersistence(
+  tabs: Tab[],
+  activeTab: string,
+  settings: WorkspaceSettings
+) {
+  const latest = useRef({ tabs, activeTab, settings });
+
+  useEffect(() => {
+    latest.current = { tabs, activeTab, settings };
+    const timeoutId = setTimeout(
+      () => saveWorkspace(latest.current),
+      SAVE_DEBOUNCE_MS
+    );
+    return () => clearTimeout(timeoutId);
+  }, [tabs, activeTab, settings]);
+
+  useEffect(() => {
+    const flush = () => saveWorkspace(latest.current);
+    window.addEventListener("beforeunload", flush);
+    return () => window.removeEventListener("beforeunload", flush);
+  }, []);
+}
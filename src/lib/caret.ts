@@ -0,0 +1,50 @@
+// Styles that decide where text lands inside a textarea
+const MIRRORED_PROPERTIES = [
+  "box-sizing",
+  "width",
+  "padding-top",
+  "padding-right",
+  "padding-bottom",
+  "padding-left",
+  "border-top-width",
+  "border-left-width",
+  "font-family",
+  "font-size",
+  "font-weight",
+  "line-height",
+  "letter-spacing",
+  "tab-size",
+  "white-space",
+  "word-wrap",
+];
+
+// Position of the character at `offset` relative to the textarea's border
+// box, measured with an off-screen copy of the textarea so wrapped lines are
+// accounted for.
+export const getCaretCoordinates = (
+  textarea: HTMLTextAreaElement,
+  offset: number
+) => {
+  const style = window.getComputedStyle(textarea);
+  const mirror = document.createElement("div");
+  MIRRORED_PROPERTIES.forEach((property) => {
+    mirror.style.setProperty(property, style.getPropertyValue(property));
+  });
+  mirror.style.position = "absolute";
+  mirror.style.visibility = "hidden";
+  mirror.style.overflow = "hidden";
+  mirror.textContent = textarea.value.slice(0, offset);
+
+  const marker = document.createElement("span");
+  marker.textContent = "\u200b"; // Zero-width, but still has a line box
+  mirror.appendChild(marker);
+  document.body.appendChild(mirror);
+
+  const coordinates = {
+    top: marker.offsetTop - textarea.scrollTop,
+    left: marker.offsetLeft - textarea.scrollLeft,
+    lineHeight: marker.offsetHeight,
+  };
+  document.body.removeChild(mirror);
+  return coordinates;
+};
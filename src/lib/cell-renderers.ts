@@ -0,0 +1,39 @@
+import { ComponentType } from "react";
+import { Column, ColumnType } from "@/lib/query-types";
+
+export interface CellRendererProps {
+  value: unknown;
+  column: Column;
+  row: unknown[]; // The whole row, for renderers drawing on sibling cells
+  columns: Column[];
+  search: string; // Quick search whose matches should be marked
+}
+
+// How the grid shows the values of one column type. `Cell` has to fit a
+// single fixed-height row; values needing more room also provide `Detail`,
+// which the grid opens under the cell when it is clicked.
+export interface CellRenderer {
+  Cell: ComponentType<CellRendererProps>;
+  Detail?: ComponentType<CellRendererProps>;
+}
+
+const renderers = new Map<string, CellRenderer>();
+
+// Registers a renderer for a column type, taking precedence over the grid's
+// built-in one. Returns a function restoring the previous renderer.
+export const registerCellRenderer = (
+  type: ColumnType | string,
+  renderer: CellRenderer
+) => {
+  const previous = renderers.get(type);
+  renderers.set(type, renderer);
+  return () => {
+    if (renderers.get(type) !== renderer) return;
+    if (previous) renderers.set(type, previous);
+    else renderers.delete(type);
+  };
+};
+
+export const getCellRenderer = (
+  type: ColumnType | string
+): CellRenderer | undefined => renderers.get(type);
@@ -0,0 +1,7 @@
+// Text of a cell as shown, searched and exported; nested values such as
+// METADATA objects become their JSON.
+export const cellText = (value: unknown): string => {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+};
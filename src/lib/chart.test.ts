@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import {
+  MAX_CHART_POINTS,
+  canChart,
+  chartData,
+  defaultChartConfig,
+  niceTicks,
+  normalizeChartConfig,
+} from "@/lib/chart";
+import { Column, ColumnType, QueryResult } from "@/lib/query-types";
+
+const columns: Column[] = [
+  { name: "image", type: ColumnType.STRING },
+  { name: "cpus", type: ColumnType.INT },
+  { name: "count(*)", type: ColumnType.COUNT },
+];
+
+const result: QueryResult = {
+  columns,
+  rows: [
+    ["nginx", 2, 3],
+    ["redis", "1.5", 1],
+    ["busybox", "n/a", null],
+  ],
+};
+
+describe("defaultChartConfig", () => {
+  it("plots aggregates labelled by the first non-numeric column", () => {
+    expect(defaultChartConfig(columns)).toEqual({
+      kind: "bar",
+      labelColumn: 0,
+      valueColumns: [2],
+    });
+  });
+
+  it("plots every numeric column without aggregates", () => {
+    expect(defaultChartConfig(columns.slice(1, 2))).toEqual({
+      kind: "bar",
+      labelColumn: null,
+      valueColumns: [0],
+    });
+  });
+
+  it("needs a numeric column to chart at all", () => {
+    expect(canChart(columns)).toBe(true);
+    expect(canChart(columns.slice(0, 1))).toBe(false);
+  });
+});
+
+describe("chartData", () => {
+  it("reads numbers and leaves gaps for values that are not", () => {
+    expect(
+      chartData(result, { kind: "line", labelColumn: 0, valueColumns: [1, 2] })
+    ).toEqual({
+      labels: ["nginx", "redis", "busybox"],
+      series: [
+        { name: "cpus", values: [2, 1.5, null] },
+        { name: "count(*)", values: [3, 1, null] },
+      ],
+      truncated: false,
+    });
+  });
+
+  it("draws a single series in a pie", () => {
+    const data = chartData(result, {
+      kind: "pie",
+      labelColumn: null,
+      valueColumns: [2, 1],
+    });
+    expect(data.labels).toEqual(["1", "2", "3"]);
+    expect(data.series.map((series) => series.name)).toEqual(["count(*)"]);
+  });
+
+  it("leaves out rows beyond the point limit", () => {
+    const rows = Array.from({ length: MAX_CHART_POINTS + 1 }, (_, i) => [
+      `c${i}`,
+      i,
+      i,
+    ]);
+    const data = chartData(
+      { columns, rows },
+      { kind: "bar", labelColumn: 0, valueColumns: [1] }
+    );
+    expect(data.labels).toHaveLength(MAX_CHART_POINTS);
+    expect(data.truncated).toBe(true);
+  });
+});
+
+describe("niceTicks", () => {
+  it("covers the range with round steps from zero", () => {
+    expect(niceTicks(0, 9)).toEqual([0, 2, 4, 6, 8, 10]);
+    expect(niceTicks(-3, 0)).toEqual([-3, -2, -1, 0]);
+    expect(niceTicks(0, 0)).toEqual([0, 1]);
+  });
+});
+
+describe("normalizeChartConfig", () => {
+  it("keeps a valid config and drops bad column indexes", () => {
+    expect(
+      normalizeChartConfig({
+        kind: "pie",
+        labelColumn: "0",
+        valueColumns: [1, 1.5, "2"],
+      })
+    ).toEqual({ kind: "pie", labelColumn: null, valueColumns: [1] });
+  });
+
+  it("rejects an unknown kind", () => {
+    expect(normalizeChartConfig({ kind: "radar" })).toBeNull();
+    expect(normalizeChartConfig(undefined)).toBeNull();
+  });
+});
@@ -0,0 +1,181 @@
+import { cellText } from "@/lib/cells";
+import {
+  Column,
+  ColumnType,
+  QueryResult,
+  isNumericType,
+} from "@/lib/query-types";
+
+export type ChartKind = "bar" | "line" | "pie";
+
+export const CHART_KINDS: ChartKind[] = ["bar", "line", "pie"];
+
+// What a chart plots. Column indexes refer to the result's own column
+// order, like the rest of the grid view state.
+export interface ChartConfig {
+  kind: ChartKind;
+  labelColumn: number | null; // Null labels the points by row number
+  valueColumns: number[];
+}
+
+export interface ChartSeries {
+  name: string;
+  values: (number | null)[]; // Null where the row has no number
+}
+
+export interface ChartData {
+  labels: string[];
+  series: ChartSeries[];
+  truncated: boolean; // Rows beyond MAX_CHART_POINTS were left out
+}
+
+// More points than this make neither a readable chart nor a fast one
+export const MAX_CHART_POINTS = 200;
+
+// Aggregates come first when picking the columns to plot by default
+const AGGREGATE_TYPES = new Set<string>([
+  ColumnType.COUNT,
+  ColumnType.SUM,
+  ColumnType.LENGTH,
+]);
+
+export const isNumericColumn = (column: Column) => isNumericType(column.type);
+
+export const canChart = (columns: Column[]) => columns.some(isNumericColumn);
+
+// Bars of the aggregate columns, or else of every numeric one, labelled by
+// the first column that is not a number.
+export const defaultChartConfig = (columns: Column[]): ChartConfig => {
+  const numeric = columns
+    .map((column, index) => ({ column, index }))
+    .filter(({ column }) => isNumericColumn(column));
+  const aggregates = numeric.filter(({ column }) =>
+    AGGREGATE_TYPES.has(column.type)
+  );
+  const labelColumn = columns.findIndex((column) => !isNumericColumn(column));
+  return {
+    kind: "bar",
+    labelColumn: labelColumn === -1 ? null : labelColumn,
+    valueColumns: (aggregates.length > 0 ? aggregates : numeric).map(
+      ({ index }) => index
+    ),
+  };
+};
+
+const toNumber = (value: unknown) => {
+  const number =
+    typeof value === "number"
+      ? value
+      : typeof value === "string" && value.trim() !== ""
+        ? Number(value)
+        : NaN;
+  return Number.isFinite(number) ? number : null;
+};
+
+// Value columns the chart draws; a pie shows only the first one picked
+export const plottedColumns = (
+  columns: Column[],
+  { kind, valueColumns }: ChartConfig
+) => {
+  const existing = valueColumns.filter((index) => index < columns.length);
+  return kind === "pie" ? existing.slice(0, 1) : existing;
+};
+
+export const chartData = (
+  { columns, rows }: QueryResult,
+  config: ChartConfig
+): ChartData => {
+  const { labelColumn } = config;
+  const plotted = rows.slice(0, MAX_CHART_POINTS);
+  return {
+    labels: plotted.map((row, index) =>
+      labelColumn !== null && labelColumn < columns.length
+        ? cellText(row[labelColumn])
+        : String(index + 1)
+    ),
+    series: plottedColumns(columns, config).map((index) => ({
+      name: columns[index].name,
+      values: plotted.map((row) => toNumber(row[index])),
+    })),
+    truncated: rows.length > MAX_CHART_POINTS,
+  };
+};
+
+// Evenly spaced round values covering 0 to `max` (or `min` to 0 for
+// negative data), for axis ticks.
+export const niceTicks = (min: number, max: number, count = 5): number[] => {
+  const low = Math.min(min, 0);
+  const high = Math.max(max, 0);
+  if (low === high) return [0, 1];
+  const rough = (high - low) / count;
+  const magnitude = 10 ** Math.floor(Math.log10(rough));
+  const step =
+    [1, 2, 5, 10].map((m) => m * magnitude).find((s) => s >= rough) ??
+    10 * magnitude;
+  const ticks = [Math.floor(low / step) * step];
+  while (ticks[ticks.length - 1] < high) {
+    ticks.push(Number((ticks[ticks.length - 1] + step).toPrecision(12)));
+  }
+  return ticks;
+};
+
+// Accepts a persisted config, or returns null when it is malformed.
+export const normalizeChartConfig = (value: unknown): ChartConfig | null => {
+  if (typeof value !== "object" || value === null) return null;
+  const config = value as Record<string, unknown>;
+  const kind = CHART_KINDS.find((chartKind) => chartKind === config.kind);
+  if (!kind) return null;
+  const { labelColumn, valueColumns } = config;
+  return {
+    kind,
+    labelColumn:
+      typeof labelColumn === "number" && Number.isInteger(labelColumn)
+        ? labelColumn
+        : null,
+    valueColumns: Array.isArray(valueColumns)
+      ? valueColumns.filter((index): index is number => Number.isInteger(index))
+      : [],
+  };
+};
+
+// Stand-alone SVG document of a rendered chart, for saving
+export const serializeSvg = (svg: SVGSVGElement) => {
+  const copy = svg.cloneNode(true) as SVGSVGElement;
+  copy.setAttribute("xmlns", "http://www.w3.org/2000/svg");
+  return new XMLSerializer().serializeToString(copy);
+};
+
+// Draws a rendered chart onto a canvas at `scale` times its size
+export const svgToPng = (svg: SVGSVGElement, scale = 2): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const { width, height } = svg.viewBox.baseVal;
+    const url = URL.createObjectURL(
+      new Blob([serializeSvg(svg)], { type: "image/svg+xml" })
+    );
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement("canvas");
+      canvas.width = width * scale;
+      canvas.height = height * scale;
+      const context = canvas.getContext("2d");
+      if (!context) {
+        URL.revokeObjectURL(url);
+        reject(new Error("Canvas is not available"));
+        return;
+      }
+      context.fillStyle = "#ffffff";
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+      URL.revokeObjectURL(url);
+      canvas.toBlob(
+        (blob) =>
+          blob ? resolve(blob) : reject(new Error("Could not encode PNG")),
+        "image/png"
+      );
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Could not render the chart"));
+    };
+    image.src = url;
+  });
@@ -0,0 +1,170 @@
+import { Token, significantTokens, tokenize } from "@/lib/lexer";
+import { LIFECYCLE_ACTIONS } from "@/lib/parser";
+
+export type CompletionKind =
+  "keyword" | "function" | "table" | "column" | "container";
+
+export interface CompletionItem {
+  label: string;
+  kind: CompletionKind;
+  insertText: string;
+  detail?: string; // Signature or short hint shown next to the label
+}
+
+// Names that depend on the backend or on earlier results
+export interface CompletionSources {
+  tables: string[];
+  columns: string[];
+  containers: string[];
+}
+
+export interface CompletionResult {
+  items: CompletionItem[];
+  from: number; // Range of the source replaced by the chosen item
+  to: number;
+}
+
+const MAX_COMPLETIONS = 50;
+
+const STATEMENT_KEYWORDS = ["SELECT", "SHOW", "LAUNCH", ...LIFECYCLE_ACTIONS];
+
+const CLAUSE_KEYWORDS = [
+  "FROM",
+  "WHERE",
+  "LIMIT",
+  "AS",
+  "AND",
+  "OR",
+  "NOT",
+  "LIKE",
+  "IN",
+  "IS",
+  "NULL",
+  "TRUE",
+  "FALSE",
+];
+
+const FUNCTIONS: CompletionItem[] = [
+  ["metadata", "metadata(container)"],
+  ["run_cmd", "run_cmd(container, 'command')"],
+  ["COUNT", "COUNT(*)"],
+  ["SUM", "SUM(column)"],
+  ["LENGTH", "LENGTH(column)"],
+  ...LIFECYCLE_ACTIONS.filter((action) => action !== "REMOVE").map((action) => [
+    action,
+    `${action}(container)`,
+  ]),
+].map(([name, detail]) => ({
+  label: name,
+  kind: "function",
+  insertText: `${name}(`,
+  detail,
+}));
+
+const keywordItems = (keywords: string[]): CompletionItem[] =>
+  keywords.map((keyword) => ({
+    label: keyword,
+    kind: "keyword",
+    insertText: keyword,
+  }));
+
+const nameItems = (names: string[], kind: CompletionKind): CompletionItem[] =>
+  Array.from(new Set(names)).map((name) => ({
+    label: name,
+    kind,
+    insertText: name,
+  }));
+
+const isWordToken = (token: Token) =>
+  /^[A-Za-z_]/.test(token.text) &&
+  ["keyword", "function", "identifier", "constant", "operator"].includes(
+    token.type
+  );
+
+// Picks what may follow the significant tokens of the current statement
+// that come before the word being completed.
+const candidatesFor = (
+  previous: Token[],
+  sources: CompletionSources
+): CompletionItem[] => {
+  const last = previous[previous.length - 1];
+  const first = previous[0]?.text.toUpperCase();
+
+  if (!last) return keywordItems(STATEMENT_KEYWORDS);
+  if (first === "SHOW") {
+    return previous.length === 1 ? keywordItems(["TABLES", "CONTAINERS"]) : [];
+  }
+  if (first === "LAUNCH") {
+    // LAUNCH CONTAINER <new name> FROM '<image>'
+    if (previous.length === 1) return keywordItems(["CONTAINER"]);
+    if (previous.length === 3) return keywordItems(["FROM"]);
+    return [];
+  }
+  if (LIFECYCLE_ACTIONS.includes(first)) {
+    if (previous.length === 1) return keywordItems(["CONTAINER"]);
+    return previous.length === 2
+      ? nameItems(sources.containers, "container")
+      : [];
+  }
+  if (last.text.toUpperCase() === "FROM") {
+    return nameItems(sources.tables, "table");
+  }
+  return [
+    ...nameItems(sources.columns, "column"),
+    ...FUNCTIONS,
+    ...keywordItems(CLAUSE_KEYWORDS),
+  ];
+};
+
+// Returns the completions for the word at `caret`, or null when there is
+// nothing to complete. Unless `explicit` (Ctrl+Space), an empty word does
+// not open completions.
+export const getCompletions = (
+  source: string,
+  caret: number,
+  sources: CompletionSources,
+  explicit = false
+): CompletionResult | null => {
+  const tokens = tokenize(source);
+  const current = tokens.find(
+    (token) => token.start < caret && caret <= token.end
+  );
+
+  if (current && (current.type === "string" || current.type === "comment")) {
+    const isClosed = !current.unterminated && caret === current.end;
+    if (current.type === "comment" || !isClosed) return null;
+  }
+
+  const word = current && isWordToken(current) ? current : undefined;
+  const from = word ? word.start : caret;
+  const to = word ? word.end : caret;
+  const prefix = source.slice(from, caret).toLowerCase();
+  if (!prefix && !explicit) return null;
+
+  // Only the current statement gives context
+  const before = significantTokens(tokens).filter((token) => token.end <= from);
+  const statementStart = before.map((token) => token.text).lastIndexOf(";");
+  const previous = before.slice(statementStart + 1);
+
+  const candidates = candidatesFor(previous, sources);
+  const startsWith = candidates.filter((item) =>
+    item.label.toLowerCase().startsWith(prefix)
+  );
+  const contains = candidates.filter(
+    (item) =>
+      !item.label.toLowerCase().startsWith(prefix) &&
+      item.label.toLowerCase().includes(prefix)
+  );
+  const items = [...startsWith, ...contains].slice(0, MAX_COMPLETIONS);
+
+  // A word that is already complete needs no popup
+  if (
+    items.length === 0 ||
+    (!explicit &&
+      items.length === 1 &&
+      items[0].insertText.toLowerCase() === prefix)
+  ) {
+    return null;
+  }
+  return { items, from, to };
+};
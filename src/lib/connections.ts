@@ -0,0 +1,112 @@
+export type ConnectionKind = "http" | "mock";
+
+export interface ConnectionProfile {
+  id: string;
+  name: string;
+  kind: ConnectionKind;
+  url: string; // Base URL of the Jagura backend, e.g. http://localhost:3000
+  token?: string; // Sent as a Bearer token when set
+  headers: Record<string, string>;
+  timeoutMs: number;
+}
+
+const STORAGE_KEY = "jagura.connections";
+
+export const DEFAULT_TIMEOUT_MS = 30000;
+
+export const DEFAULT_CONNECTION: ConnectionProfile = {
+  id: "local",
+  name: "Local",
+  kind: "http",
+  url: "http://localhost:3000",
+  headers: {},
+  timeoutMs: DEFAULT_TIMEOUT_MS,
+};
+
+export const MOCK_CONNECTION: ConnectionProfile = {
+  id: "mock",
+  name: "Mock (in-browser)",
+  kind: "mock",
+  url: "",
+  headers: {},
+  timeoutMs: DEFAULT_TIMEOUT_MS,
+};
+
+const DEFAULT_CONNECTIONS = [DEFAULT_CONNECTION, MOCK_CONNECTION];
+
+const CONNECTION_KINDS: readonly unknown[] = ["http", "mock"];
+
+const isConnectionProfile = (value: unknown): value is ConnectionProfile => {
+  if (typeof value !== "object" || value === null) return false;
+  const profile = value as Record<string, unknown>;
+  return (
+    typeof profile.id === "string" &&
+    typeof profile.name === "string" &&
+    (profile.kind === undefined || CONNECTION_KINDS.includes(profile.kind)) &&
+    typeof profile.url === "string" &&
+    typeof profile.timeoutMs === "number" &&
+    typeof profile.headers === "object" &&
+    profile.headers !== null
+  );
+};
+
+export const loadConnections = (): ConnectionProfile[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_CONNECTIONS;
+
+    const parsed: unknown = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return DEFAULT_CONNECTIONS;
+
+    // Profiles saved before transports existed have no kind; they are HTTP.
+    const profiles = parsed
+      .filter(isConnectionProfile)
+      .map((profile) => ({ ...profile, kind: profile.kind ?? "http" }));
+    return profiles.length > 0 ? profiles : DEFAULT_CONNECTIONS;
+  } catch (error) {
+    console.error("Error loading connection profiles:", error);
+    return DEFAULT_CONNECTIONS;
+  }
+};
+
+export const saveConnections = (profiles: ConnectionProfile[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+  } catch (error) {
+    console.error("Error saving connection profiles:", error);
+  }
+};
+
+export const buildRequestHeaders = (
+  profile: ConnectionProfile
+): Record<string, string> => {
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    ...profile.headers,
+  };
+  if (profile.token) {
+    headers.Authorization = `Bearer ${profile.token}`;
+  }
+  return headers;
+};
+
+export const buildEndpoint = (profile: ConnectionProfile, path: string) =>
+  `${profile.url.replace(/\/+$/, "")}/${path.replace(/^\/+/, "")}`;
+
+// Headers are edited as "Name: value" lines in the connection form.
+export const parseHeaderLines = (text: string): Record<string, string> => {
+  const headers: Record<string, string> = {};
+  text.split("\n").forEach((line) => {
+    const separator = line.indexOf(":");
+    if (separator <= 0) return;
+    const name = line.slice(0, separator).trim();
+    const value = line.slice(separator + 1).trim();
+    if (name) headers[name] = value;
+  });
+  return headers;
+};
+
+export const formatHeaderLines = (headers: Record<string, string>) =>
+  Object.entries(headers)
+    .map(([name, value]) => `${name}: ${value}`)
+    .join("\n");
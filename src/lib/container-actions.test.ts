@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import {
+  ReplacedRows,
+  actionStatement,
+  actionsFor,
+  containerNameOf,
+  containerStateOf,
+  quoteIdentifier,
+  restoreRows,
+  withContainerState,
+} from "@/lib/container-actions";
+import { ResultSet } from "@/lib/protocol";
+import { ColumnType } from "@/lib/query-types";
+
+const result: ResultSet = {
+  kind: "resultSet",
+  columns: [
+    { name: "name", type: ColumnType.CONTAINER },
+    { name: "state", type: ColumnType.STRING },
+    { name: "running", type: ColumnType.BOOLEAN },
+    { name: "metadata", type: ColumnType.METADATA },
+  ],
+  rows: [
+    ["web", "running", true, '{"state":"running","image":"nginx"}'],
+    ["db", "exited", false, { state: "exited" }],
+  ],
+};
+
+describe("quoteIdentifier", () => {
+  it("writes bare names as they are and quotes the rest", () => {
+    expect(quoteIdentifier("my-app.v2")).toBe("my-app.v2");
+    expect(quoteIdentifier("my app")).toBe('"my app"');
+    expect(quoteIdentifier('say "hi"')).toBe('"say ""hi"""');
+    expect(quoteIdentifier("a--b")).toBe('"a--b"');
+    expect(actionStatement("STOP", "1web")).toBe('STOP CONTAINER "1web"');
+  });
+});
+
+describe("actionsFor", () => {
+  it("offers the actions that make sense in a state", () => {
+    expect(actionsFor("Running")).toEqual(["STOP", "RESTART", "PAUSE", "KILL"]);
+    expect(actionsFor("removed")).toEqual([]);
+    expect(actionsFor(null)).toHaveLength(7);
+  });
+});
+
+describe("containerNameOf and containerStateOf", () => {
+  it("read a row's container and state", () => {
+    expect(containerNameOf(result.rows[0], result.columns)).toBe("web");
+    expect(containerStateOf(result.rows[1], result.columns)).toBe("exited");
+  });
+
+  it("fall back to the state in METADATA", () => {
+    const columns = [result.columns[0], result.columns[3]];
+    expect(containerStateOf(["web", '{"state":"paused"}'], columns)).toBe(
+      "paused"
+    );
+    expect(containerStateOf(["web", "not json"], columns)).toBeNull();
+  });
+});
+
+describe("withContainerState", () => {
+  it("updates every column showing the container's state", () => {
+    const updated = withContainerState(result, "web", "exited");
+    expect(updated.rows[0]).toEqual([
+      "web",
+      "exited",
+      false,
+      '{"state":"exited","image":"nginx"}',
+    ]);
+    expect(updated.rows[1]).toBe(result.rows[1]);
+  });
+
+  it("leaves a result without a CONTAINER column alone", () => {
+    const plain: ResultSet = {
+      ...result,
+      columns: [{ name: "name", type: ColumnType.STRING }],
+    };
+    expect(withContainerState(plain, "web", "exited")).toBe(plain);
+  });
+
+  it("records replaced rows so restoreRows can put them back", () => {
+    const replaced: ReplacedRows = new Map();
+    const updated = withContainerState(result, "db", "running", replaced);
+    expect(replaced.size).toBe(1);
+    expect(restoreRows(updated, replaced).rows).toEqual(result.rows);
+    expect(restoreRows(result, replaced)).toBe(result);
+  });
+});
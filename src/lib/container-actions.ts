@@ -0,0 +1,157 @@
+import { ResultSet } from "@/lib/protocol";
+import { Column, ColumnType } from "@/lib/query-types";
+
+export type ContainerAction =
+  "START" | "STOP" | "PAUSE" | "UNPAUSE" | "RESTART" | "KILL" | "REMOVE";
+
+// In the order menus list them
+export const CONTAINER_ACTIONS: ContainerAction[] = [
+  "START",
+  "STOP",
+  "RESTART",
+  "PAUSE",
+  "UNPAUSE",
+  "KILL",
+  "REMOVE",
+];
+
+// Actions that cannot be undone, confirmed before running
+export const DESTRUCTIVE_ACTIONS: ContainerAction[] = ["KILL", "REMOVE"];
+
+// Names the lexer reads as one bare identifier are written as they are;
+// anything else is double-quoted.
+export const quoteIdentifier = (name: string) =>
+  /^[A-Za-z_][A-Za-z0-9_.:-]*$/.test(name) && !name.includes("--")
+    ? name
+    : `"${name.replace(/"/g, '""')}"`;
+
+export const actionStatement = (action: ContainerAction, name: string) =>
+  `${action} CONTAINER ${quoteIdentifier(name)}`;
+
+// The state the container is expected to be in once the action succeeded
+export const stateAfter = (action: ContainerAction): string => {
+  switch (action) {
+    case "START":
+    case "UNPAUSE":
+    case "RESTART":
+      return "running";
+    case "STOP":
+    case "KILL":
+      return "exited";
+    case "PAUSE":
+      return "paused";
+    case "REMOVE":
+      return "removed";
+  }
+};
+
+// Actions allowed from `state`; every action when the state is unknown, so
+// the server gets to decide.
+export const actionsFor = (state: string | null): ContainerAction[] => {
+  switch (state?.toLowerCase()) {
+    case "running":
+      return ["STOP", "RESTART", "PAUSE", "KILL"];
+    case "paused":
+      return ["UNPAUSE", "STOP", "RESTART", "KILL"];
+    case "created":
+    case "exited":
+    case "dead":
+      return ["START", "RESTART", "REMOVE"];
+    case "removed":
+      return [];
+    default:
+      return CONTAINER_ACTIONS;
+  }
+};
+
+const parseObject = (value: unknown): Record<string, unknown> | null => {
+  if (typeof value === "string") {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      return null;
+    }
+  }
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : null;
+};
+
+const isStateColumn = (column: Column) => column.name.toLowerCase() === "state";
+
+// The container's state as the row shows it, from a `state` column or a
+// METADATA object, or null when the query selected neither.
+export const containerStateOf = (row: unknown[], columns: Column[]) => {
+  for (let index = 0; index < columns.length; index++) {
+    if (isStateColumn(columns[index])) {
+      if (typeof row[index] === "string") return row[index] as string;
+    } else if (columns[index].type === ColumnType.METADATA) {
+      const state = parseObject(row[index])?.state;
+      if (typeof state === "string") return state;
+    }
+  }
+  return null;
+};
+
+// Name of the container a row is about: the value of its first CONTAINER
+// column.
+export const containerNameOf = (row: unknown[], columns: Column[]) => {
+  const index = columns.findIndex(
+    (column) => column.type === ColumnType.CONTAINER
+  );
+  const value = index === -1 ? null : row[index];
+  return value === null || value === undefined ? null : String(value);
+};
+
+// Rows changed by withContainerState, each mapped to the row it replaced
+export type ReplacedRows = Map<unknown[], unknown[]>;
+
+// Copy of `result` with every row about container `name` showing `state`,
+// in its `state` and `running` columns and METADATA objects alike. Rows it
+// changes are recorded in `replaced`, if given, for restoreRows.
+export const withContainerState = (
+  result: ResultSet,
+  name: string,
+  state: string,
+  replaced?: ReplacedRows
+): ResultSet => {
+  const { columns } = result;
+  if (!columns.some((column) => column.type === ColumnType.CONTAINER)) {
+    return result;
+  }
+  return {
+    ...result,
+    rows: result.rows.map((row) => {
+      if (containerNameOf(row, columns) !== name) return row;
+      const updated = row.map((value, index) => {
+        const column = columns[index];
+        if (isStateColumn(column)) return state;
+        if (
+          column.type === ColumnType.BOOLEAN &&
+          column.name.toLowerCase() === "running"
+        ) {
+          return state === "running";
+        }
+        if (column.type === ColumnType.METADATA) {
+          const metadata = parseObject(value);
+          if (!metadata || !("state" in metadata)) return value;
+          const updated = { ...metadata, state };
+          return typeof value === "string" ? JSON.stringify(updated) : updated;
+        }
+        return value;
+      });
+      replaced?.set(updated, row);
+      return updated;
+    }),
+  };
+};
+
+// Puts back the rows withContainerState replaced. Rows that have since been
+// replaced again, e.g. by a new run, are left as they are.
+export const restoreRows = (
+  result: ResultSet,
+  replaced: ReplacedRows
+): ResultSet =>
+  result.rows.some((row) => replaced.has(row))
+    ? { ...result, rows: result.rows.map((row) => replaced.get(row) ?? row) }
+    : result;
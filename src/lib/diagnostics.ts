@@ -0,0 +1,36 @@
+import { JaguraSyntaxError, parseStatement } from "@/lib/parser";
+import { offsetToLineColumn, splitStatements } from "@/lib/statements";
+
+export interface Diagnostic {
+  message: string;
+  start: number; // Range in the source to underline
+  end: number;
+  line: number;
+  column: number;
+  statement: number; // 1-based
+}
+
+// Parses every statement of the script and reports the first syntax error
+// of each. Errors at the end of a statement underline its last character.
+export const validateScript = (source: string): Diagnostic[] =>
+  splitStatements(source).flatMap((statement, index) => {
+    try {
+      parseStatement(statement.text, statement.start);
+      return [];
+    } catch (error) {
+      if (!(error instanceof JaguraSyntaxError)) throw error;
+      const start =
+        error.end > error.position
+          ? error.position
+          : Math.max(error.position - 1, statement.start);
+      return [
+        {
+          message: error.message,
+          start,
+          end: Math.max(error.end, start + 1),
+          ...offsetToLineColumn(source, error.position),
+          statement: index + 1,
+        },
+      ];
+    }
+  });
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { exportFileName, formatResultSet, safeFileName } from "@/lib/export";
+import { ColumnType, QueryResult } from "@/lib/query-types";
+
+const result: QueryResult = {
+  columns: [
+    { name: "name", type: ColumnType.CONTAINER },
+    { name: "note", type: ColumnType.STRING },
+  ],
+  rows: [
+    ["web", 'say "hi", then\nleave'],
+    ["db", null],
+    ["cache", " padded\tcell "],
+  ],
+};
+
+describe("formatResultSet", () => {
+  it("quotes CSV fields with separators, quotes, line breaks or padding", () => {
+    expect(formatResultSet(result, "csv")).toBe(
+      [
+        "name,note",
+        'web,"say ""hi"", then\nleave"',
+        "db,",
+        'cache," padded\tcell "',
+      ].join("\n")
+    );
+  });
+
+  it("escapes tabs, line breaks and backslashes in TSV", () => {
+    expect(
+      formatResultSet(
+        { ...result, rows: [["a\\b", "x\ty\r\nz"], ...result.rows.slice(1)] },
+        "tsv"
+      )
+    ).toBe(
+      [
+        "name\tnote",
+        "a\\\\b\tx\\ty\\r\\nz",
+        "db\t",
+        "cache\t padded\\tcell ",
+      ].join("\n")
+    );
+  });
+
+  it("writes JSON objects, nesting metadata and renaming repeated columns", () => {
+    const json = formatResultSet(
+      {
+        columns: [
+          { name: "name", type: ColumnType.CONTAINER },
+          { name: "name", type: ColumnType.STRING },
+          { name: "metadata", type: ColumnType.METADATA },
+        ],
+        rows: [["web", undefined, '{"state":"running"}']],
+      },
+      "json"
+    );
+    expect(JSON.parse(json)).toEqual([
+      { name: "web", name_2: null, metadata: { state: "running" } },
+    ]);
+  });
+
+  it("escapes pipes and line breaks in Markdown", () => {
+    expect(
+      formatResultSet(
+        { columns: result.columns, rows: [["a|b", "one\ntwo"]] },
+        "markdown"
+      )
+    ).toBe(
+      ["| name | note |", "| --- | --- |", "| a\\|b | one<br>two |"].join("\n")
+    );
+  });
+});
+
+describe("safeFileName", () => {
+  it("replaces characters that are unsafe in file names", () => {
+    expect(safeFileName(" SELECT * FROM t ", "csv")).toBe("SELECT-FROM-t.csv");
+    expect(safeFileName("../etc/passwd", "json")).toBe("..-etc-passwd.json");
+  });
+
+  it("falls back to a default name", () => {
+    expect(safeFileName("  ***  ", "png")).toBe("results.png");
+  });
+
+  it("uses the extension of the format", () => {
+    expect(exportFileName("report", "markdown")).toBe("report.md");
+  });
+});
@@ -0,0 +1,129 @@
+import { cellText } from "@/lib/cells";
+import { ColumnType, QueryResult } from "@/lib/query-types";
+
+export type ExportFormat = "csv" | "tsv" | "json" | "markdown";
+
+export const EXPORT_FORMATS: Record<
+  ExportFormat,
+  { label: string; extension: string; mimeType: string }
+> = {
+  csv: { label: "CSV", extension: "csv", mimeType: "text/csv" },
+  tsv: {
+    label: "TSV",
+    extension: "tsv",
+    mimeType: "text/tab-separated-values",
+  },
+  json: { label: "JSON", extension: "json", mimeType: "application/json" },
+  markdown: { label: "Markdown", extension: "md", mimeType: "text/markdown" },
+};
+
+// Servers may send METADATA as a JSON string; JSON exports nest it instead.
+const jsonValue = (value: unknown, type: ColumnType): unknown => {
+  if (type === ColumnType.METADATA && typeof value === "string") {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value;
+    }
+  }
+  return value ?? null;
+};
+
+// RFC 4180: quote fields holding separators, quotes or line breaks and
+// double the quotes inside.
+const csvField = (value: unknown) => {
+  const text = cellText(value);
+  return /[",\r\n]/.test(text) || text !== text.trim()
+    ? `"${text.replace(/"/g, '""')}"`
+    : text;
+};
+
+// TSV has no quoting, so tabs and line breaks are written as escapes.
+const tsvField = (value: unknown) =>
+  cellText(value)
+    .replace(/\\/g, "\\\\")
+    .replace(/\t/g, "\\t")
+    .replace(/\n/g, "\\n")
+    .replace(/\r/g, "\\r");
+
+const markdownField = (value: unknown) =>
+  cellText(value)
+    .replace(/\\/g, "\\\\")
+    .replace(/\|/g, "\\|")
+    .replace(/\r?\n/g, "<br>");
+
+// Repeated column names (e.g. two "name" columns from different
+// expressions) would overwrite each other as object keys.
+const uniqueKeys = (names: string[]) => {
+  const seen = new Map<string, number>();
+  return names.map((name) => {
+    const count = (seen.get(name) ?? 0) + 1;
+    seen.set(name, count);
+    return count === 1 ? name : `${name}_${count}`;
+  });
+};
+
+export const formatResultSet = (
+  { columns, rows }: QueryResult,
+  format: ExportFormat
+): string => {
+  const names = columns.map((column) => column.name);
+  switch (format) {
+    case "csv":
+      return [names, ...rows]
+        .map((row) => row.map(csvField).join(","))
+        .join("\n");
+    case "tsv":
+      return [names, ...rows]
+        .map((row) => row.map(tsvField).join("\t"))
+        .join("\n");
+    case "json": {
+      const keys = uniqueKeys(names);
+      const objects = rows.map((row) =>
+        Object.fromEntries(
+          keys.map((key, index) => [
+            key,
+            jsonValue(row[index], columns[index].type),
+          ])
+        )
+      );
+      return JSON.stringify(objects, null, 2);
+    }
+    case "markdown":
+      return [
+        `| ${names.map(markdownField).join(" | ")} |`,
+        `| ${names.map(() => "---").join(" | ")} |`,
+        ...rows.map((row) => `| ${row.map(markdownField).join(" | ")} |`),
+      ].join("\n");
+  }
+};
+
+// Turns a tab name into a file name that is safe on every platform.
+export const safeFileName = (baseName: string, extension: string) => {
+  const safe = baseName
+    .trim()
+    .replace(/[^\w.-]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return `${safe || "results"}.${extension}`;
+};
+
+export const exportFileName = (baseName: string, format: ExportFormat) =>
+  safeFileName(baseName, EXPORT_FORMATS[format].extension);
+
+// Saves `content` through a temporary link, which works without any
+// browser permission.
+export const downloadFile = (
+  content: string | Blob,
+  fileName: string,
+  mimeType: string
+) => {
+  const blob =
+    content instanceof Blob ? content : new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Some browsers abort the download if the URL goes before it has started
+  setTimeout(() => URL.revokeObjectURL(url));
+};
@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest";
+import {
+  ColumnFilter,
+  filterKindFor,
+  filterRows,
+  normalizeFilter,
+  splitMatches,
+} from "@/lib/filter";
+import { Column, ColumnType } from "@/lib/query-types";
+
+const columns: Column[] = [
+  { name: "name", type: ColumnType.CONTAINER },
+  { name: "cpus", type: ColumnType.INT },
+  { name: "running", type: ColumnType.BOOLEAN },
+];
+
+const rows = [
+  ["web", 2, true],
+  ["db", "4", false],
+  ["cache", null, "true"],
+];
+
+const names = (filters: ColumnFilter[], search = "") =>
+  filterRows(rows, columns, filters, search).map((row) => row[0]);
+
+describe("filterKindFor", () => {
+  it("picks a filter by column type", () => {
+    expect(filterKindFor(ColumnType.SUM)).toBe("range");
+    expect(filterKindFor(ColumnType.BOOLEAN)).toBe("boolean");
+    expect(filterKindFor(ColumnType.METADATA)).toBe("text");
+  });
+});
+
+describe("filterRows", () => {
+  it("matches text without case, or as a regular expression", () => {
+    expect(
+      names([{ column: 0, kind: "text", query: "E", regex: false }])
+    ).toEqual(["web", "cache"]);
+    expect(
+      names([{ column: 0, kind: "text", query: "^(db|web)$", regex: true }])
+    ).toEqual(["web", "db"]);
+  });
+
+  it("ignores a regular expression that does not compile", () => {
+    expect(
+      names([{ column: 0, kind: "text", query: "(", regex: true }])
+    ).toEqual(["web", "db", "cache"]);
+  });
+
+  it("keeps numbers within a range and drops rows without one", () => {
+    expect(names([{ column: 1, kind: "range", min: "3", max: "" }])).toEqual([
+      "db",
+    ]);
+    expect(names([{ column: 1, kind: "range", min: "", max: "2" }])).toEqual([
+      "web",
+    ]);
+  });
+
+  it("reads booleans written as text", () => {
+    expect(names([{ column: 2, kind: "boolean", value: "true" }])).toEqual([
+      "web",
+      "cache",
+    ]);
+  });
+
+  it("combines filters with the quick search", () => {
+    expect(
+      names([{ column: 2, kind: "boolean", value: "true" }], " CAC ")
+    ).toEqual(["cache"]);
+  });
+
+  it("searches only the given columns", () => {
+    expect(filterRows(rows, columns, [], "2", [0])).toEqual([]);
+    expect(filterRows(rows, columns, [], "2", [1])).toEqual([rows[0]]);
+  });
+
+  it("returns the rows themselves when nothing filters them", () => {
+    expect(
+      filterRows(
+        rows,
+        columns,
+        [{ column: 1, kind: "range", min: " ", max: "" }],
+        ""
+      )
+    ).toBe(rows);
+  });
+});
+
+describe("splitMatches", () => {
+  it("splits text around every match", () => {
+    expect(splitMatches("Web web", "WEB")).toEqual([
+      { text: "Web", match: true },
+      { text: " ", match: false },
+      { text: "web", match: true },
+    ]);
+    expect(splitMatches("db", "")).toEqual([{ text: "db", match: false }]);
+  });
+});
+
+describe("normalizeFilter", () => {
+  it("keeps a valid filter and fills in its fields", () => {
+    expect(normalizeFilter({ column: 1, kind: "range", min: "1" })).toEqual({
+      column: 1,
+      kind: "range",
+      min: "1",
+      max: "",
+    });
+    expect(
+      normalizeFilter({ column: 2, kind: "boolean", value: "yes" })
+    ).toEqual({ column: 2, kind: "boolean", value: "" });
+  });
+
+  it("rejects a malformed filter", () => {
+    expect(normalizeFilter(null)).toBeNull();
+    expect(normalizeFilter({ column: 1.5, kind: "text" })).toBeNull();
+    expect(normalizeFilter({ column: 0, kind: "date" })).toBeNull();
+  });
+});
@@ -0,0 +1,175 @@
+import { cellText } from "@/lib/cells";
+import { Column, ColumnType, isNumericType } from "@/lib/query-types";
+
+// Filter on one result column. Range bounds are kept as typed so a
+// half-typed number does not reset the input.
+export type ColumnFilter = { column: number } & (
+  | { kind: "text"; query: string; regex: boolean }
+  | { kind: "range"; min: string; max: string }
+  | { kind: "boolean"; value: "true" | "false" | "" }
+);
+
+export type FilterKind = ColumnFilter["kind"];
+
+export const filterKindFor = (type: ColumnType): FilterKind =>
+  isNumericType(type)
+    ? "range"
+    : type === ColumnType.BOOLEAN
+      ? "boolean"
+      : "text";
+
+export const emptyFilter = (column: number, kind: FilterKind): ColumnFilter =>
+  kind === "range"
+    ? { column, kind, min: "", max: "" }
+    : kind === "boolean"
+      ? { column, kind, value: "" }
+      : { column, kind, query: "", regex: false };
+
+export const isFilterActive = (filter: ColumnFilter) =>
+  filter.kind === "range"
+    ? filter.min.trim() !== "" || filter.max.trim() !== ""
+    : filter.kind === "boolean"
+      ? filter.value !== ""
+      : filter.query !== "";
+
+// Case-insensitive; null while the user is still typing an invalid pattern,
+// in which case the filter is ignored rather than hiding every row.
+export const compileRegex = (pattern: string): RegExp | null => {
+  try {
+    return new RegExp(pattern, "i");
+  } catch {
+    return null;
+  }
+};
+
+const toNumber = (value: unknown) => {
+  if (typeof value === "number") return value;
+  if (typeof value !== "string" || value.trim() === "") return NaN;
+  return Number(value);
+};
+
+const toBoolean = (value: unknown) =>
+  value === true ||
+  value === 1 ||
+  (typeof value === "string" && value.toLowerCase() === "true");
+
+// Builds the test for one filter once, so it is not recompiled per row.
+const compileFilter = (filter: ColumnFilter) => {
+  switch (filter.kind) {
+    case "text": {
+      if (filter.regex) {
+        const regex = compileRegex(filter.query);
+        return regex ? (value: unknown) => regex.test(cellText(value)) : null;
+      }
+      const query = filter.query.toLowerCase();
+      return (value: unknown) => cellText(value).toLowerCase().includes(query);
+    }
+    case "range": {
+      const min = filter.min.trim() === "" ? -Infinity : Number(filter.min);
+      const max = filter.max.trim() === "" ? Infinity : Number(filter.max);
+      if (Number.isNaN(min) || Number.isNaN(max)) return null;
+      return (value: unknown) => {
+        const number = toNumber(value);
+        return !Number.isNaN(number) && min <= number && number <= max;
+      };
+    }
+    case "boolean": {
+      const expected = filter.value === "true";
+      return (value: unknown) =>
+        value !== null && value !== undefined && toBoolean(value) === expected;
+    }
+  }
+};
+
+// Keeps the rows passing every active column filter and, when `search` is
+// set, containing it (case-insensitively) in one of the `searchColumns`.
+export const filterRows = (
+  rows: unknown[][],
+  columns: Column[],
+  filters: ColumnFilter[],
+  search: string,
+  searchColumns: number[] = columns.map((_, index) => index)
+): unknown[][] => {
+  const tests = filters
+    .filter(
+      (filter) => filter.column < columns.length && isFilterActive(filter)
+    )
+    .map((filter) => ({ column: filter.column, test: compileFilter(filter) }))
+    .filter(
+      (entry): entry is { column: number; test: (value: unknown) => boolean } =>
+        entry.test !== null
+    );
+  const needle = search.trim().toLowerCase();
+  if (tests.length === 0 && !needle) return rows;
+
+  return rows.filter(
+    (row) =>
+      tests.every(({ column, test }) => test(row[column])) &&
+      (!needle ||
+        searchColumns.some((column) =>
+          cellText(row[column]).toLowerCase().includes(needle)
+        ))
+  );
+};
+
+// Splits `text` into the parts that match `search` and those that do not,
+// for highlighting.
+export const splitMatches = (
+  text: string,
+  search: string
+): { text: string; match: boolean }[] => {
+  const needle = search.trim().toLowerCase();
+  if (!needle) return [{ text, match: false }];
+  const parts: { text: string; match: boolean }[] = [];
+  const lower = text.toLowerCase();
+  let position = 0;
+  for (;;) {
+    const found = lower.indexOf(needle, position);
+    if (found === -1) break;
+    if (found > position) {
+      parts.push({ text: text.slice(position, found), match: false });
+    }
+    parts.push({ text: text.slice(found, found + needle.length), match: true });
+    position = found + needle.length;
+  }
+  if (position < text.length) {
+    parts.push({ text: text.slice(position), match: false });
+  }
+  return parts;
+};
+
+// Accepts a persisted filter, or returns null when it is malformed.
+export const normalizeFilter = (value: unknown): ColumnFilter | null => {
+  if (typeof value !== "object" || value === null) return null;
+  const filter = value as Record<string, unknown>;
+  const { column } = filter;
+  if (typeof column !== "number" || !Number.isInteger(column)) return null;
+  const text = (field: unknown) => (typeof field === "string" ? field : "");
+  switch (filter.kind) {
+    case "text":
+      return {
+        column,
+        kind: "text",
+        query: text(filter.query),
+        regex: filter.regex === true,
+      };
+    case "range":
+      return {
+        column,
+        kind: "range",
+        min: text(filter.min),
+        max: text(filter.max),
+      };
+    case "boolean":
+      return {
+        column,
+        kind: "boolean",
+        value:
+          filter.value === "true" || filter.value === "false"
+            ? filter.value
+            : "",
+      };
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_GRID_VIEW,
+  MIN_COLUMN_WIDTH,
+  autoSizeColumns,
+  columnsKey,
+  moveColumn,
+  normalizeGridView,
+  setViewAt,
+  shownColumns,
+  viewFor,
+} from "@/lib/grid-view";
+import { Column, ColumnType } from "@/lib/query-types";
+
+const columns: Column[] = ["a", "b", "c"].map((name) => ({
+  name,
+  type: ColumnType.STRING,
+}));
+
+describe("viewFor", () => {
+  it("keeps the view made for the same columns", () => {
+    const view = {
+      ...DEFAULT_GRID_VIEW,
+      columnsKey: columnsKey(columns),
+      hiddenColumns: [1],
+    };
+    expect(viewFor(view, columns)).toBe(view);
+  });
+
+  it("starts afresh for other columns", () => {
+    const view = { ...DEFAULT_GRID_VIEW, columnsKey: '["x"]', search: "web" };
+    expect(viewFor(view, columns)).toEqual({
+      ...DEFAULT_GRID_VIEW,
+      columnsKey: columnsKey(columns),
+    });
+  });
+});
+
+describe("setViewAt", () => {
+  it("replaces one result's view and fills any gap with defaults", () => {
+    const view = { ...DEFAULT_GRID_VIEW, search: "web" };
+    expect(setViewAt([], 2, view)).toEqual([
+      DEFAULT_GRID_VIEW,
+      DEFAULT_GRID_VIEW,
+      view,
+    ]);
+    expect(setViewAt([DEFAULT_GRID_VIEW, DEFAULT_GRID_VIEW], 0, view)).toEqual([
+      view,
+      DEFAULT_GRID_VIEW,
+    ]);
+  });
+});
+
+describe("shownColumns", () => {
+  it("follows the column order and leaves out hidden columns", () => {
+    expect(
+      shownColumns({ columnOrder: [2, 0, 1], hiddenColumns: [0] }, 3)
+    ).toEqual([2, 1]);
+  });
+
+  it("falls back to the server's order when the order does not fit", () => {
+    expect(shownColumns({ columnOrder: [1, 0], hiddenColumns: [] }, 3)).toEqual(
+      [0, 1, 2]
+    );
+  });
+});
+
+describe("moveColumn", () => {
+  it("moves a column to where the target is shown", () => {
+    expect(moveColumn(DEFAULT_GRID_VIEW, 3, 0, 2)).toEqual([1, 2, 0]);
+    expect(
+      moveColumn({ ...DEFAULT_GRID_VIEW, columnOrder: [1, 2, 0] }, 3, 0, 1)
+    ).toEqual([0, 1, 2]);
+  });
+
+  it("keeps hidden columns in the order", () => {
+    expect(
+      moveColumn({ ...DEFAULT_GRID_VIEW, hiddenColumns: [1] }, 3, 2, 0)
+    ).toEqual([2, 0, 1]);
+  });
+});
+
+describe("autoSizeColumns", () => {
+  it("fits the header and content within limits", () => {
+    const widths = autoSizeColumns({
+      columns,
+      rows: [["x", "y".repeat(30), "z".repeat(1000)]],
+    });
+    expect(widths[0]).toBeGreaterThanOrEqual(MIN_COLUMN_WIDTH);
+    expect(widths[1]).toBeGreaterThan(widths[0]);
+    expect(widths[2]).toBe(400);
+  });
+});
+
+describe("normalizeGridView", () => {
+  it("falls back to the defaults for what is malformed", () => {
+    expect(
+      normalizeGridView({
+        columnsKey: 3,
+        sort: [{ column: 1, direction: "desc" }, { column: 0 }],
+        columnWidths: [100, "wide"],
+        hiddenColumns: [2],
+        filters: [{ column: 0, kind: "text", query: "web" }, { kind: "date" }],
+        showChart: "yes",
+        scrollTop: 40,
+        scrollLeft: Infinity,
+      })
+    ).toEqual({
+      ...DEFAULT_GRID_VIEW,
+      sort: [{ column: 1, direction: "desc" }],
+      hiddenColumns: [2],
+      filters: [{ column: 0, kind: "text", query: "web", regex: false }],
+      scrollTop: 40,
+    });
+    expect(normalizeGridView(null)).toBe(DEFAULT_GRID_VIEW);
+  });
+});
@@ -0,0 +1,169 @@
+import { ChartConfig, normalizeChartConfig } from "@/lib/chart";
+import { ColumnFilter, normalizeFilter } from "@/lib/filter";
+import { Column, QueryResult } from "@/lib/query-types";
+import { SortKey } from "@/lib/sort";
+
+// How a tab shows one of its results. Column indexes refer to the result's
+// own column order; the state only applies while the result has the columns
+// it was made for, so a query returning different columns starts afresh.
+export interface GridViewState {
+  columnsKey: string | null;
+  sort: SortKey[];
+  columnWidths: number[]; // Empty until the user resizes; auto-sized before
+  columnOrder: number[]; // Empty for the server's order
+  hiddenColumns: number[];
+  filters: ColumnFilter[];
+  search: string; // Quick search across the shown columns
+  showFilters: boolean; // Whether the filter row is open
+  showChart: boolean; // Chart instead of the table
+  chart: ChartConfig | null; // Null until changed; picked from the columns
+  scrollTop: number;
+  scrollLeft: number;
+}
+
+export const DEFAULT_GRID_VIEW: GridViewState = {
+  columnsKey: null,
+  sort: [],
+  columnWidths: [],
+  columnOrder: [],
+  hiddenColumns: [],
+  filters: [],
+  search: "",
+  showFilters: false,
+  showChart: false,
+  chart: null,
+  scrollTop: 0,
+  scrollLeft: 0,
+};
+
+export const MIN_COLUMN_WIDTH = 50;
+const MAX_AUTO_COLUMN_WIDTH = 400;
+
+// Rough text metrics of the grid fonts, enough to size columns without
+// measuring the DOM.
+const CHAR_WIDTH = 8;
+const CELL_PADDING = 16;
+const HEADER_CONTROLS_WIDTH = 56; // Type icon and sort button
+const AUTO_SIZE_SAMPLE_ROWS = 100;
+
+export const columnsKey = (columns: Column[]) =>
+  JSON.stringify(columns.map((column) => column.name));
+
+// The state for a result with `columns`, or a fresh one when the stored
+// state belongs to other columns.
+export const viewFor = (
+  view: GridViewState,
+  columns: Column[]
+): GridViewState => {
+  const key = columnsKey(columns);
+  return view.columnsKey === key
+    ? view
+    : { ...DEFAULT_GRID_VIEW, columnsKey: key };
+};
+
+// The views of a tab's results with the one at `index` replaced, filling
+// any gap before it with defaults.
+export const setViewAt = (
+  views: GridViewState[],
+  index: number,
+  view: GridViewState
+): GridViewState[] =>
+  Array.from({ length: Math.max(views.length, index + 1) }, (_, i) =>
+    i === index ? view : (views[i] ?? DEFAULT_GRID_VIEW)
+  );
+
+// Indexes of the columns on display, left to right.
+export const shownColumns = (
+  view: Pick<GridViewState, "columnOrder" | "hiddenColumns">,
+  columnCount: number
+) => {
+  const all = Array.from({ length: columnCount }, (_, index) => index);
+  const isPermutation =
+    view.columnOrder.length === columnCount &&
+    all.every((index) => view.columnOrder.includes(index));
+  const order = isPermutation ? view.columnOrder : all;
+  return order.filter((index) => !view.hiddenColumns.includes(index));
+};
+
+// Moves `column` to where `target` is shown, returning the full column
+// order (hidden columns included).
+export const moveColumn = (
+  view: GridViewState,
+  columnCount: number,
+  column: number,
+  target: number
+): number[] => {
+  const order = shownColumns({ ...view, hiddenColumns: [] }, columnCount);
+  const from = order.indexOf(column);
+  const to = order.indexOf(target);
+  if (from === -1 || to === -1 || from === to) return order;
+  const next = order.filter((index) => index !== column);
+  next.splice(to, 0, column);
+  return next;
+};
+
+const textLength = (value: unknown) =>
+  value === null || value === undefined
+    ? 0
+    : typeof value === "object"
+      ? JSON.stringify(value).length
+      : String(value).length;
+
+// Widths fitting the header and the first rows' content, within limits.
+export const autoSizeColumns = ({ columns, rows }: QueryResult): number[] => {
+  const sample = rows.slice(0, AUTO_SIZE_SAMPLE_ROWS);
+  return columns.map((column, index) => {
+    const header = column.name.length * CHAR_WIDTH + HEADER_CONTROLS_WIDTH;
+    const content = Math.max(
+      0,
+      ...sample.map((row) => textLength(row[index]) * CHAR_WIDTH)
+    );
+    const width = Math.max(header, content) + CELL_PADDING;
+    return Math.round(
+      Math.min(Math.max(width, MIN_COLUMN_WIDTH), MAX_AUTO_COLUMN_WIDTH)
+    );
+  });
+};
+
+const isIndexList = (value: unknown): value is number[] =>
+  Array.isArray(value) && value.every((item) => Number.isInteger(item));
+
+const isNumberList = (value: unknown): value is number[] =>
+  Array.isArray(value) &&
+  value.every((item) => typeof item === "number" && Number.isFinite(item));
+
+const isSortKey = (value: unknown): value is SortKey => {
+  if (typeof value !== "object" || value === null) return false;
+  const key = value as Record<string, unknown>;
+  return (
+    Number.isInteger(key.column) &&
+    (key.direction === "asc" || key.direction === "desc")
+  );
+};
+
+// Accepts a persisted state, falling back to the defaults for anything
+// missing or malformed.
+export const normalizeGridView = (value: unknown): GridViewState => {
+  if (typeof value !== "object" || value === null) return DEFAULT_GRID_VIEW;
+  const view = value as Record<string, unknown>;
+  const number = (field: unknown) =>
+    typeof field === "number" && Number.isFinite(field) ? field : 0;
+  return {
+    columnsKey: typeof view.columnsKey === "string" ? view.columnsKey : null,
+    sort: Array.isArray(view.sort) ? view.sort.filter(isSortKey) : [],
+    columnWidths: isNumberList(view.columnWidths) ? view.columnWidths : [],
+    columnOrder: isIndexList(view.columnOrder) ? view.columnOrder : [],
+    hiddenColumns: isIndexList(view.hiddenColumns) ? view.hiddenColumns : [],
+    filters: Array.isArray(view.filters)
+      ? view.filters
+          .map(normalizeFilter)
+          .filter((filter): filter is ColumnFilter => filter !== null)
+      : [],
+    search: typeof view.search === "string" ? view.search : "",
+    showFilters: view.showFilters === true,
+    showChart: view.showChart === true,
+    chart: normalizeChartConfig(view.chart),
+    scrollTop: number(view.scrollTop),
+    scrollLeft: number(view.scrollLeft),
+  };
+};
@@ -0,0 +1,64 @@
+// Range of rows or columns to render out of a larger scrolled area: items
+// `start` up to (not including) `end`, the first placed at `offset` pixels.
+export interface GridWindow {
+  start: number;
+  end: number;
+  offset: number;
+}
+
+// Extra rows and columns rendered beyond the viewport, so fast scrolling does
+// not reveal blank space before the next render.
+const ROW_OVERSCAN = 10;
+const COLUMN_OVERSCAN = 2;
+
+// Rows all have the same height, so the window is plain arithmetic.
+export const getRowWindow = (
+  scrollTop: number,
+  viewportHeight: number,
+  rowCount: number,
+  rowHeight: number,
+  overscan = ROW_OVERSCAN
+): GridWindow => {
+  const first = Math.floor(Math.max(scrollTop, 0) / rowHeight);
+  const visible = Math.ceil(viewportHeight / rowHeight) + 1;
+  const start = Math.max(0, Math.min(first - overscan, rowCount));
+  const end = Math.min(rowCount, first + visible + overscan);
+  return { start, end, offset: start * rowHeight };
+};
+
+// Left edge of each column and, last, the total width.
+export const getColumnOffsets = (widths: number[]): number[] => {
+  const offsets = [0];
+  widths.forEach((width, index) => offsets.push(offsets[index] + width));
+  return offsets;
+};
+
+// Index of the column containing pixel `x`, by binary search on the offsets.
+const columnAt = (offsets: number[], x: number) => {
+  let low = 0;
+  let high = offsets.length - 2;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (offsets[middle] <= x) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return Math.max(low, 0);
+};
+
+export const getColumnWindow = (
+  scrollLeft: number,
+  viewportWidth: number,
+  offsets: number[],
+  overscan = COLUMN_OVERSCAN
+): GridWindow => {
+  const columnCount = offsets.length - 1;
+  if (columnCount <= 0) return { start: 0, end: 0, offset: 0 };
+  const first = columnAt(offsets, Math.max(scrollLeft, 0));
+  const last = columnAt(offsets, Math.max(scrollLeft, 0) + viewportWidth);
+  const start = Math.max(0, first - overscan);
+  const end = Math.min(columnCount, last + 1 + overscan);
+  return { start, end, offset: offsets[start] };
+};
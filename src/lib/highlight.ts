@@ -0,0 +1,72 @@
+import { Token, TokenType, tokenize } from "@/lib/lexer";
+
+const TOKEN_STYLES: Partial<Record<TokenType, string>> = {
+  keyword: "color: #4A90E2;",
+  function: "color: #D0021B;",
+  operator: "color: #D0021B;",
+  constant: "color: #D0021B;",
+  string: "color: #2E7D32;",
+  number: "color: #B45309;",
+  comment: "color: #9CA3AF; font-style: italic;",
+};
+
+// Extra styling laid over a range of the source, e.g. the executed statement
+export interface HighlightMark {
+  start: number;
+  end: number;
+  style: string;
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+// Highlights the whole source at once, so strings and comments spanning
+// lines keep their colour, and returns the HTML of each line separately for
+// the line-numbered editor.
+export const highlightLines = (
+  source: string,
+  marks: HighlightMark[] = [],
+  tokens: Token[] = tokenize(source)
+): string[] => {
+  const boundaries = new Set<number>([0, source.length]);
+  tokens.forEach((token) => boundaries.add(token.start));
+  marks.forEach((mark) => {
+    boundaries.add(Math.max(0, Math.min(mark.start, source.length)));
+    boundaries.add(Math.max(0, Math.min(mark.end, source.length)));
+  });
+  for (let i = 0; i < source.length; i++) {
+    if (source[i] === "\n") {
+      boundaries.add(i);
+      boundaries.add(i + 1);
+    }
+  }
+  const cuts = Array.from(boundaries).sort((a, b) => a - b);
+
+  const lines: string[] = [];
+  let line = "";
+  let tokenIndex = 0;
+  for (let c = 0; c < cuts.length - 1; c++) {
+    const start = cuts[c];
+    const end = cuts[c + 1];
+    if (source[start] === "\n") {
+      lines.push(line);
+      line = "";
+      continue;
+    }
+    while (tokens[tokenIndex + 1] && tokens[tokenIndex + 1].start <= start) {
+      tokenIndex++;
+    }
+    const style = [
+      TOKEN_STYLES[tokens[tokenIndex].type] ?? "",
+      ...marks
+        .filter((mark) => mark.start <= start && end <= mark.end)
+        .map((mark) => mark.style),
+    ]
+      .join(" ")
+      .trim();
+    const text = escapeHtml(source.slice(start, end));
+    line += style ? `<span style="${style}">${text}</span>` : text;
+  }
+  lines.push(line);
+  return lines;
+};
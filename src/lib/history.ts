@@ -0,0 +1,90 @@
+export type HistoryStatus = "success" | "error" | "cancelled";
+
+export interface HistoryEntry {
+  id: string;
+  query: string;
+  executedAt: string; // ISO timestamp
+  connectionId: string;
+  connectionName: string; // Kept so entries stay readable after a profile is deleted
+  durationMs: number;
+  rowCount: number | null; // null for statements that return no rows
+  status: HistoryStatus;
+  errorMessage?: string;
+}
+
+export interface HistoryFilter {
+  search: string;
+  status: HistoryStatus | "all";
+  connectionId: string | "all";
+}
+
+const STORAGE_KEY = "jagura.history";
+
+export const MAX_HISTORY_ENTRIES = 500;
+
+export const EMPTY_HISTORY_FILTER: HistoryFilter = {
+  search: "",
+  status: "all",
+  connectionId: "all",
+};
+
+const isHistoryEntry = (value: unknown): value is HistoryEntry => {
+  if (typeof value !== "object" || value === null) return false;
+  const entry = value as Record<string, unknown>;
+  return (
+    typeof entry.id === "string" &&
+    typeof entry.query === "string" &&
+    typeof entry.executedAt === "string" &&
+    typeof entry.connectionId === "string" &&
+    typeof entry.connectionName === "string" &&
+    typeof entry.durationMs === "number" &&
+    Number.isFinite(entry.durationMs) &&
+    (entry.rowCount === null || typeof entry.rowCount === "number") &&
+    (entry.status === "success" ||
+      entry.status === "error" ||
+      entry.status === "cancelled")
+  );
+};
+
+export const loadHistory = (): HistoryEntry[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const parsed: unknown = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter(isHistoryEntry) : [];
+  } catch (error) {
+    console.error("Error loading query history:", error);
+    return [];
+  }
+};
+
+export const saveHistory = (entries: HistoryEntry[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+  } catch (error) {
+    console.error("Error saving query history:", error);
+  }
+};
+
+// Entries are kept newest first; the oldest fall off past the cap.
+export const pruneHistory = (
+  entries: HistoryEntry[],
+  maxEntries = MAX_HISTORY_ENTRIES
+) => entries.slice(0, maxEntries);
+
+export const filterHistory = (
+  entries: HistoryEntry[],
+  { search, status, connectionId }: HistoryFilter
+) => {
+  const terms = search.toLowerCase().split(/\s+/).filter(Boolean);
+  return entries.filter((entry) => {
+    if (status !== "all" && entry.status !== status) return false;
+    if (connectionId !== "all" && entry.connectionId !== connectionId) {
+      return false;
+    }
+    const haystack = [entry.query, entry.connectionName, entry.errorMessage]
+      .join(" ")
+      .toLowerCase();
+    return terms.every((term) => haystack.includes(term));
+  });
+};
@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import { significantTokens, tokenize } from "@/lib/lexer";
+
+// Type and text of each token, which is what most tests care about
+const lex = (source: string) =>
+  tokenize(source).map(({ type, text }) => [type, text]);
+
+describe("tokenize", () => {
+  it("classifies keywords, functions, identifiers and constants", () => {
+    expect(
+      lex("select metadata(name), start (x), my_col FROM t WHERE b IS NULL")
+    ).toEqual([
+      ["keyword", "select"],
+      ["whitespace", " "],
+      ["function", "metadata"],
+      ["punctuation", "("],
+      ["identifier", "name"],
+      ["punctuation", ")"],
+      ["punctuation", ","],
+      ["whitespace", " "],
+      ["function", "start"],
+      ["whitespace", " "],
+      ["punctuation", "("],
+      ["identifier", "x"],
+      ["punctuation", ")"],
+      ["punctuation", ","],
+      ["whitespace", " "],
+      ["identifier", "my_col"],
+      ["whitespace", " "],
+      ["keyword", "FROM"],
+      ["whitespace", " "],
+      ["identifier", "t"],
+      ["whitespace", " "],
+      ["keyword", "WHERE"],
+      ["whitespace", " "],
+      ["identifier", "b"],
+      ["whitespace", " "],
+      ["operator", "IS"],
+      ["whitespace", " "],
+      ["constant", "NULL"],
+    ]);
+  });
+
+  it("reads container and image names as one identifier", () => {
+    expect(lex("my-app nginx:1.25 a--b")).toEqual([
+      ["identifier", "my-app"],
+      ["whitespace", " "],
+      ["identifier", "nginx:1.25"],
+      ["whitespace", " "],
+      ["identifier", "a"],
+      ["comment", "--b"],
+    ]);
+  });
+
+  it("reads the longest operator and decimal numbers", () => {
+    expect(lex("a<=1.5<>2.")).toEqual([
+      ["identifier", "a"],
+      ["operator", "<="],
+      ["number", "1.5"],
+      ["operator", "<>"],
+      ["number", "2"],
+      ["punctuation", "."],
+    ]);
+  });
+
+  it("unescapes strings and quoted identifiers", () => {
+    expect(tokenize(`'it''s' "a ""b"""`)).toEqual([
+      { type: "string", text: "'it''s'", start: 0, end: 7, value: "it's" },
+      { type: "whitespace", text: " ", start: 7, end: 8 },
+      {
+        type: "identifier",
+        text: '"a ""b"""',
+        start: 8,
+        end: 17,
+        value: 'a "b"',
+      },
+    ]);
+  });
+
+  it("marks an unterminated string and keeps the rest of the line in it", () => {
+    expect(tokenize("'open -- x")).toEqual([
+      {
+        type: "string",
+        text: "'open -- x",
+        start: 0,
+        end: 10,
+        value: "open -- x",
+        unterminated: true,
+      },
+    ]);
+  });
+
+  it("loses no characters", () => {
+    const source = "SELECT *\n-- c\nFROM t; ~ 'x";
+    expect(
+      tokenize(source)
+        .map((token) => token.text)
+        .join("")
+    ).toBe(source);
+    expect(tokenize(source).find((token) => token.text === "~")?.type).toBe(
+      "unknown"
+    );
+  });
+});
+
+describe("significantTokens", () => {
+  it("drops whitespace and comments", () => {
+    expect(
+      significantTokens(tokenize("SHOW -- all\n TABLES")).map(
+        (token) => token.text
+      )
+    ).toEqual(["SHOW", "TABLES"]);
+  });
+});
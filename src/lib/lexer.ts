@@ -0,0 +1,185 @@
+// Lexer for the Jagura dialect. It is lossless: every character of the
+// source ends up in exactly one token, so the editor can rebuild the text
+// from the tokens and map any offset back to a token.
+
+export type TokenType =
+  | "keyword"
+  | "function"
+  | "identifier"
+  | "string"
+  | "number"
+  | "constant"
+  | "operator"
+  | "punctuation"
+  | "comment"
+  | "whitespace"
+  | "unknown";
+
+export interface Token {
+  type: TokenType;
+  text: string; // Exact source text of the token
+  start: number;
+  end: number;
+  value?: string; // Unescaped content of strings and quoted identifiers
+  unterminated?: boolean; // Set on a string missing its closing quote
+}
+
+export const KEYWORDS = new Set([
+  "SELECT",
+  "FROM",
+  "WHERE",
+  "LIMIT",
+  "AS",
+  "SHOW",
+  "TABLES",
+  "CONTAINERS",
+  "LAUNCH",
+  "CONTAINER",
+  "START",
+  "STOP",
+  "PAUSE",
+  "UNPAUSE",
+  "RESTART",
+  "KILL",
+  "REMOVE",
+  "CREATE",
+  "TABLE",
+  "INSERT",
+  "INTO",
+  "VALUES",
+  "UPDATE",
+  "DELETE",
+  "DROP",
+  "ALTER",
+  "INDEX",
+  "VIEW",
+  "NUMBER",
+  "STRING",
+  "BOOLEAN",
+  "INT",
+]);
+
+// Keywords that act as operators inside conditions
+export const WORD_OPERATORS = new Set([
+  "AND",
+  "OR",
+  "NOT",
+  "LIKE",
+  "IN",
+  "IS",
+  "BETWEEN",
+  "EXISTS",
+]);
+
+export const CONSTANTS = new Set(["TRUE", "FALSE", "NULL"]);
+
+// Functions callable in a select list. The lifecycle keywords START ... KILL
+// double as functions when followed by '('.
+export const FUNCTIONS = new Set([
+  "METADATA",
+  "RUN_CMD",
+  "COUNT",
+  "SUM",
+  "LENGTH",
+]);
+
+// Longest first, so "<=" is not read as "<" followed by "=".
+const OPERATORS = ["<=", ">=", "<>", "!=", "=", "<", ">", "*", "+", "-", "/"];
+
+const PUNCTUATION = ["(", ")", ",", ";", "."];
+
+const isIdentifierStart = (char: string) => /[A-Za-z_]/.test(char);
+
+// Container and image names such as my-app or nginx:1.25 are written bare,
+// so '-', '.' and ':' continue an identifier (but "--" starts a comment).
+const isIdentifierPart = (source: string, i: number) =>
+  /[A-Za-z0-9_.:]/.test(source[i]) ||
+  (source[i] === "-" && source[i + 1] !== "-");
+
+// Reads a quoted run starting at `start`, where a doubled quote escapes it.
+const readQuoted = (source: string, start: number, quote: string) => {
+  let value = "";
+  let i = start + 1;
+  while (i < source.length) {
+    if (source[i] === quote && source[i + 1] === quote) {
+      value += quote;
+      i += 2;
+    } else if (source[i] === quote) {
+      return { end: i + 1, value, unterminated: false };
+    } else {
+      value += source[i++];
+    }
+  }
+  return { end: i, value, unterminated: true };
+};
+
+const classifyWord = (source: string, word: string, end: number) => {
+  const upper = word.toUpperCase();
+  let next = end;
+  while (next < source.length && /\s/.test(source[next])) next++;
+  const isCall = source[next] === "(";
+
+  if (isCall && (FUNCTIONS.has(upper) || KEYWORDS.has(upper))) {
+    return "function";
+  }
+  if (KEYWORDS.has(upper)) return "keyword";
+  if (WORD_OPERATORS.has(upper)) return "operator";
+  if (CONSTANTS.has(upper)) return "constant";
+  return "identifier";
+};
+
+export const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  const push = (type: TokenType, end: number, extra?: Partial<Token>) => {
+    tokens.push({ type, text: source.slice(i, end), start: i, end, ...extra });
+    i = end;
+  };
+
+  while (i < source.length) {
+    const char = source[i];
+    let end = i + 1;
+
+    if (/\s/.test(char)) {
+      while (end < source.length && /\s/.test(source[end])) end++;
+      push("whitespace", end);
+    } else if (source.startsWith("--", i)) {
+      while (end < source.length && source[end] !== "\n") end++;
+      push("comment", end);
+    } else if (char === "'" || char === '"') {
+      const quoted = readQuoted(source, i, char);
+      push(char === "'" ? "string" : "identifier", quoted.end, {
+        value: quoted.value,
+        unterminated: quoted.unterminated || undefined,
+      });
+    } else if (/[0-9]/.test(char)) {
+      while (end < source.length && /[0-9]/.test(source[end])) end++;
+      if (source[end] === "." && /[0-9]/.test(source[end + 1] ?? "")) {
+        end++;
+        while (end < source.length && /[0-9]/.test(source[end])) end++;
+      }
+      push("number", end);
+    } else if (isIdentifierStart(char)) {
+      while (end < source.length && isIdentifierPart(source, end)) end++;
+      push(classifyWord(source, source.slice(i, end), end), end);
+    } else {
+      const operator = OPERATORS.find((op) => source.startsWith(op, i));
+      if (operator) {
+        push("operator", i + operator.length);
+      } else if (PUNCTUATION.includes(char)) {
+        push("punctuation", end);
+      } else {
+        push("unknown", end);
+      }
+    }
+  }
+
+  return tokens;
+};
+
+// Tokens that carry meaning, without whitespace and comments
+export const significantTokens = (tokens: Token[]) =>
+  tokens.filter(
+    (token) => token.type !== "whitespace" && token.type !== "comment"
+  );
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import {
+  changesContainers,
+  parseStatement,
+  statementChangesContainers,
+} from "@/lib/parser";
+
+const errorOf = (source: string) => {
+  try {
+    parseStatement(source);
+  } catch (error) {
+    return (error as Error).message;
+  }
+  return null;
+};
+
+describe("parseStatement", () => {
+  it("reads negative numbers in conditions", () => {
+    const statement = parseStatement(
+      "SELECT name FROM containers WHERE cpus > -1"
+    );
+    expect(statement).toMatchObject({
+      kind: "select",
+      where: { kind: "compare", op: ">", right: { value: -1 } },
+    });
+  });
+
+  it("reads literals in the select list", () => {
+    const statement = parseStatement("SELECT -1.5 AS x, 'a' FROM t");
+    expect(statement).toMatchObject({
+      items: [
+        { kind: "literal", value: -1.5, label: "-1.5", alias: "x" },
+        { kind: "literal", value: "a", label: "'a'" },
+      ],
+    });
+  });
+
+  it("reads TRUE, FALSE and NULL as literals", () => {
+    const statement = parseStatement(
+      "SELECT true, NULL AS n FROM t WHERE running = FALSE"
+    );
+    expect(statement).toMatchObject({
+      items: [
+        { kind: "literal", value: true, label: "TRUE" },
+        { kind: "literal", value: null, label: "NULL", alias: "n" },
+      ],
+      where: { right: { kind: "literal", value: false } },
+    });
+  });
+
+  it("expects a number after a minus", () => {
+    expect(errorOf("SELECT name FROM t WHERE cpus > -cpus")).toBe(
+      "Expected a number but found 'cpus'"
+    );
+  });
+
+  it("does not take keywords for names", () => {
+    expect(errorOf("SELECT FROM x")).toBe(
+      "Expected a column or function but found 'FROM'"
+    );
+    expect(errorOf("SELECT name FROM WHERE")).toBe(
+      "Expected a table name but found 'WHERE'"
+    );
+  });
+
+  it("takes quoted keywords for names", () => {
+    expect(parseStatement('SELECT "from" FROM containers')).toMatchObject({
+      items: [{ kind: "column", name: "from" }],
+      table: { name: "containers" },
+    });
+  });
+});
+
+describe("changesContainers", () => {
+  it("tells statements that change containers from those that read", () => {
+    expect(changesContainers(parseStatement("SHOW CONTAINERS"))).toBe(false);
+    expect(
+      changesContainers(parseStatement("SELECT name FROM containers"))
+    ).toBe(false);
+    expect(changesContainers(parseStatement("STOP CONTAINER web"))).toBe(true);
+    expect(
+      changesContainers(parseStatement("SELECT start(name) FROM containers"))
+    ).toBe(true);
+  });
+
+  it("counts statements it cannot parse as changing containers", () => {
+    expect(statementChangesContainers("DROP TABLE containers")).toBe(true);
+  });
+});
@@ -0,0 +1,531 @@
+import {
+  WORD_OPERATORS,
+  significantTokens,
+  tokenize as lex,
+} from "@/lib/lexer";
+
+// Recursive-descent parser for the Jagura dialect:
+//
+//   SHOW TABLES | SHOW CONTAINERS
+//   LAUNCH CONTAINER <name> FROM '<image>'
+//   START | STOP | PAUSE | UNPAUSE | RESTART | KILL | REMOVE CONTAINER <name>
+//   SELECT <items> FROM <table> [WHERE <condition>] [LIMIT <n>]
+//
+// where <items> are columns, literals or calls, and may use metadata(col),
+// run_cmd(col, 'cmd'), the lifecycle functions START(col) ... KILL(col), and
+// COUNT, SUM and LENGTH. It checks syntax only; whether tables, columns and
+// containers exist is up to the engine running the statement.
+
+export class JaguraSyntaxError extends Error {
+  position: number; // Offset of the offending token
+  end: number; // Offset just past it; equal to position at end of input
+
+  constructor(message: string, position: number, end: number) {
+    super(message);
+    this.name = "JaguraSyntaxError";
+    this.position = position;
+    this.end = end;
+  }
+}
+
+type TokenKind = "word" | "string" | "number" | "symbol" | "eof";
+
+interface Token {
+  kind: TokenKind;
+  value: string;
+  start: number;
+  end: number;
+  reserved?: boolean; // A bare word that cannot name a column or table
+}
+
+// Words that shape a statement, so taking one for a name would only move
+// the error somewhere less helpful. Quoting one makes it a name.
+const RESERVED_WORDS = new Set([
+  "SELECT",
+  "FROM",
+  "WHERE",
+  "LIMIT",
+  "AS",
+  ...WORD_OPERATORS,
+]);
+
+const SYMBOLS = [
+  "<=",
+  ">=",
+  "<>",
+  "!=",
+  "=",
+  "<",
+  ">",
+  "(",
+  ")",
+  ",",
+  "*",
+  ";",
+  "-",
+];
+
+// Adapts the lexer output to the tokens the parser below expects. `offset`
+// is added to every position so errors point into the whole script.
+const tokenize = (source: string, offset: number): Token[] => {
+  const tokens = significantTokens(lex(source)).map((token): Token => {
+    const start = token.start + offset;
+    const end = token.end + offset;
+    if (token.unterminated) {
+      throw new JaguraSyntaxError(
+        token.type === "string"
+          ? "Unterminated string literal"
+          : "Unterminated quoted identifier",
+        start,
+        end
+      );
+    }
+    switch (token.type) {
+      case "string":
+        return { kind: "string", value: token.value ?? "", start, end };
+      case "number":
+        return { kind: "number", value: token.text, start, end };
+      case "operator":
+      case "punctuation":
+      case "unknown":
+        if (SYMBOLS.includes(token.text)) {
+          return { kind: "symbol", value: token.text, start, end };
+        }
+        if (token.type === "operator" && /^[A-Za-z]/.test(token.text)) {
+          return {
+            kind: "word",
+            value: token.text,
+            start,
+            end,
+            reserved: RESERVED_WORDS.has(token.text.toUpperCase()),
+          };
+        }
+        throw new JaguraSyntaxError(
+          `Unexpected character '${token.text[0]}'`,
+          start,
+          start + 1
+        );
+      default:
+        return {
+          kind: "word",
+          value: token.value ?? token.text,
+          start,
+          end,
+          reserved:
+            token.value === undefined &&
+            RESERVED_WORDS.has(token.text.toUpperCase()),
+        };
+    }
+  });
+
+  const end = source.length + offset;
+  tokens.push({ kind: "eof", value: "", start: end, end });
+  return tokens;
+};
+
+const createCursor = (tokens: Token[]) => {
+  let index = 0;
+
+  const peek = (offset = 0) =>
+    tokens[Math.min(index + offset, tokens.length - 1)];
+  const next = () => tokens[Math.min(index++, tokens.length - 1)];
+  const isWord = (word: string, offset = 0) =>
+    peek(offset).kind === "word" && peek(offset).value.toUpperCase() === word;
+  const isSymbol = (symbol: string) =>
+    peek().kind === "symbol" && peek().value === symbol;
+
+  const fail = (expected: string): never => {
+    const token = peek();
+    const found =
+      token.kind === "eof" ? "end of statement" : `'${token.value}'`;
+    throw new JaguraSyntaxError(
+      `Expected ${expected} but found ${found}`,
+      token.start,
+      token.end
+    );
+  };
+
+  return {
+    peek,
+    next,
+    isWord,
+    isSymbol,
+    fail,
+    acceptWord: (word: string) => (isWord(word) ? (next(), true) : false),
+    acceptSymbol: (symbol: string) =>
+      isSymbol(symbol) ? (next(), true) : false,
+    expectWord: (word: string) => (isWord(word) ? next() : fail(word)),
+    expectSymbol: (symbol: string) =>
+      isSymbol(symbol) ? next() : fail(`'${symbol}'`),
+    expectIdentifier: (what: string) =>
+      peek().kind === "word" && !peek().reserved ? next() : fail(what),
+    atEnd: () => peek().kind === "eof",
+  };
+};
+
+type Cursor = ReturnType<typeof createCursor>;
+
+export type LiteralValue = string | number | boolean | null;
+
+type Literal = { kind: "literal"; value: LiteralValue };
+
+export type Operand =
+  { kind: "column"; name: string; position: number } | Literal;
+
+export type Condition =
+  | { kind: "and" | "or"; items: Condition[] }
+  | { kind: "not"; item: Condition }
+  | { kind: "compare"; op: string; left: Operand; right: Operand }
+  | { kind: "isNull"; operand: Operand; negated: boolean }
+  | { kind: "like"; operand: Operand; pattern: Operand; negated: boolean }
+  | { kind: "in"; operand: Operand; values: Operand[]; negated: boolean };
+
+export type SelectItem =
+  | { kind: "star" }
+  | { kind: "column"; name: string; alias?: string; position: number }
+  | {
+      kind: "literal";
+      value: LiteralValue;
+      label: string;
+      alias?: string;
+      position: number;
+    }
+  | {
+      kind: "call";
+      fn: string;
+      args: (Operand | { kind: "star" })[];
+      label: string;
+      alias?: string;
+      position: number;
+    };
+
+// Select items other than '*', which can take an alias
+type NamedSelectItem = Exclude<SelectItem, { kind: "star" }>;
+
+export const LIFECYCLE_ACTIONS = [
+  "START",
+  "STOP",
+  "PAUSE",
+  "UNPAUSE",
+  "RESTART",
+  "KILL",
+  "REMOVE",
+];
+
+export const AGGREGATES = ["COUNT", "SUM"];
+
+export const FUNCTIONS = [
+  "METADATA",
+  "RUN_CMD",
+  "LENGTH",
+  ...AGGREGATES,
+  ...LIFECYCLE_ACTIONS,
+];
+
+const LITERAL_WORDS = new Map<string, LiteralValue>([
+  ["TRUE", true],
+  ["FALSE", false],
+  ["NULL", null],
+]);
+
+const isLiteralWord = (token: Token) =>
+  token.kind === "word" &&
+  !token.reserved &&
+  LITERAL_WORDS.has(token.value.toUpperCase());
+
+// Whether the next token starts a literal rather than a name
+const atLiteral = (cursor: Cursor) => {
+  const token = cursor.peek();
+  return (
+    token.kind === "string" ||
+    token.kind === "number" ||
+    cursor.isSymbol("-") ||
+    isLiteralWord(token)
+  );
+};
+
+const parseLiteral = (cursor: Cursor): Literal => {
+  const token = cursor.peek();
+  if (token.kind === "string") {
+    cursor.next();
+    return { kind: "literal", value: token.value };
+  }
+  if (token.kind === "number") {
+    cursor.next();
+    return { kind: "literal", value: Number(token.value) };
+  }
+  if (cursor.acceptSymbol("-")) {
+    const number = cursor.peek();
+    if (number.kind !== "number") return cursor.fail("a number");
+    cursor.next();
+    return { kind: "literal", value: -Number(number.value) };
+  }
+  if (isLiteralWord(token)) {
+    cursor.next();
+    return {
+      kind: "literal",
+      value: LITERAL_WORDS.get(token.value.toUpperCase()) ?? null,
+    };
+  }
+  return cursor.fail("a value");
+};
+
+const parseOperand = (cursor: Cursor): Operand => {
+  if (atLiteral(cursor)) return parseLiteral(cursor);
+  const token = cursor.peek();
+  if (token.kind === "word" && !token.reserved) {
+    cursor.next();
+    return { kind: "column", name: token.value, position: token.start };
+  }
+  return cursor.fail("a column or value");
+};
+
+const parseCondition = (cursor: Cursor): Condition => {
+  const parseOr = (): Condition => {
+    const items = [parseAnd()];
+    while (cursor.acceptWord("OR")) items.push(parseAnd());
+    return items.length === 1 ? items[0] : { kind: "or", items };
+  };
+
+  const parseAnd = (): Condition => {
+    const items = [parseNot()];
+    while (cursor.acceptWord("AND")) items.push(parseNot());
+    return items.length === 1 ? items[0] : { kind: "and", items };
+  };
+
+  const parseNot = (): Condition =>
+    cursor.acceptWord("NOT")
+      ? { kind: "not", item: parseNot() }
+      : parsePrimary();
+
+  const parsePrimary = (): Condition => {
+    if (cursor.acceptSymbol("(")) {
+      const inner = parseOr();
+      cursor.expectSymbol(")");
+      return inner;
+    }
+
+    const operand = parseOperand(cursor);
+
+    if (cursor.acceptWord("IS")) {
+      const negated = cursor.acceptWord("NOT");
+      cursor.expectWord("NULL");
+      return { kind: "isNull", operand, negated };
+    }
+
+    const negated = cursor.acceptWord("NOT");
+    if (cursor.acceptWord("LIKE")) {
+      return { kind: "like", operand, pattern: parseOperand(cursor), negated };
+    }
+    if (cursor.acceptWord("IN")) {
+      cursor.expectSymbol("(");
+      const values = [parseOperand(cursor)];
+      while (cursor.acceptSymbol(",")) values.push(parseOperand(cursor));
+      cursor.expectSymbol(")");
+      return { kind: "in", operand, values, negated };
+    }
+    if (negated) return cursor.fail("LIKE or IN");
+
+    const opToken = cursor.peek();
+    if (
+      opToken.kind !== "symbol" ||
+      !["=", "!=", "<>", "<", ">", "<=", ">="].includes(opToken.value)
+    ) {
+      return cursor.fail("a comparison operator");
+    }
+    cursor.next();
+    return {
+      kind: "compare",
+      op: opToken.value,
+      left: operand,
+      right: parseOperand(cursor),
+    };
+  };
+
+  return parseOr();
+};
+
+// A column, or a function call when the name is followed by '('
+const parseNamedItem = (cursor: Cursor): NamedSelectItem => {
+  const token = cursor.expectIdentifier("a column or function");
+  if (cursor.isSymbol("(")) {
+    const fn = token.value.toUpperCase();
+    if (!FUNCTIONS.includes(fn)) {
+      throw new JaguraSyntaxError(
+        `Unknown function '${token.value}'`,
+        token.start,
+        token.end
+      );
+    }
+    cursor.next();
+    const args: (Operand | { kind: "star" })[] = [];
+    if (!cursor.isSymbol(")")) {
+      do {
+        args.push(
+          cursor.acceptSymbol("*") ? { kind: "star" } : parseOperand(cursor)
+        );
+      } while (cursor.acceptSymbol(","));
+    }
+    cursor.expectSymbol(")");
+    const label = `${token.value.toLowerCase()}(${args
+      .map((arg) =>
+        arg.kind === "star"
+          ? "*"
+          : arg.kind === "column"
+            ? arg.name
+            : `'${arg.value}'`
+      )
+      .join(", ")})`;
+    return { kind: "call", fn, args, label, position: token.start };
+  }
+  return { kind: "column", name: token.value, position: token.start };
+};
+
+const parseSelectItem = (cursor: Cursor): SelectItem => {
+  if (cursor.acceptSymbol("*")) return { kind: "star" };
+
+  const first = cursor.peek();
+  let item: NamedSelectItem;
+
+  if (atLiteral(cursor)) {
+    const { value } = parseLiteral(cursor);
+    item = {
+      kind: "literal",
+      value,
+      label:
+        typeof value === "string"
+          ? `'${value}'`
+          : typeof value === "number"
+            ? String(value)
+            : String(value).toUpperCase(),
+      position: first.start,
+    };
+  } else {
+    item = parseNamedItem(cursor);
+  }
+
+  if (cursor.acceptWord("AS")) {
+    item.alias = cursor.expectIdentifier("an alias").value;
+  }
+  return item;
+};
+
+export interface NameRef {
+  name: string;
+  position: number;
+}
+
+export type ParsedStatement =
+  | { kind: "show"; target: "tables" | "containers" }
+  | {
+      kind: "select";
+      items: SelectItem[];
+      table: NameRef;
+      where: Condition | null;
+      limit: number | null;
+    }
+  | { kind: "launch"; container: NameRef; image: string }
+  | { kind: "lifecycle"; action: string; container: NameRef };
+
+const parseSelect = (cursor: Cursor): ParsedStatement => {
+  const items = [parseSelectItem(cursor)];
+  while (cursor.acceptSymbol(",")) items.push(parseSelectItem(cursor));
+
+  cursor.expectWord("FROM");
+  const tableToken = cursor.expectIdentifier("a table name");
+  const where = cursor.acceptWord("WHERE") ? parseCondition(cursor) : null;
+  let limit: number | null = null;
+  if (cursor.acceptWord("LIMIT")) {
+    const token = cursor.next();
+    if (token.kind !== "number") {
+      throw new JaguraSyntaxError(
+        "LIMIT expects a number",
+        token.start,
+        token.end
+      );
+    }
+    limit = Number(token.value);
+  }
+
+  return {
+    kind: "select",
+    items,
+    table: { name: tableToken.value, position: tableToken.start },
+    where,
+    limit,
+  };
+};
+
+// Parses a single statement without its terminating ';'. `offset` is where
+// the statement starts in the script, so error positions are script-wide.
+// Throws a JaguraSyntaxError on the first syntax error.
+export const parseStatement = (source: string, offset = 0): ParsedStatement => {
+  const cursor = createCursor(tokenize(source, offset));
+  const first = cursor.peek();
+  let statement: ParsedStatement;
+
+  if (cursor.acceptWord("SHOW")) {
+    const target = cursor.acceptWord("TABLES") ? "tables" : "containers";
+    if (target === "containers") cursor.expectWord("CONTAINERS");
+    statement = { kind: "show", target };
+  } else if (cursor.acceptWord("SELECT")) {
+    statement = parseSelect(cursor);
+  } else if (cursor.acceptWord("LAUNCH")) {
+    cursor.expectWord("CONTAINER");
+    const nameToken = cursor.expectIdentifier("a container name");
+    cursor.expectWord("FROM");
+    const imageToken = cursor.next();
+    if (imageToken.kind !== "string") {
+      throw new JaguraSyntaxError(
+        "Expected an image name in quotes",
+        imageToken.start,
+        imageToken.end
+      );
+    }
+    statement = {
+      kind: "launch",
+      container: { name: nameToken.value, position: nameToken.start },
+      image: imageToken.value,
+    };
+  } else if (
+    first.kind === "word" &&
+    LIFECYCLE_ACTIONS.includes(first.value.toUpperCase())
+  ) {
+    const action = cursor.next().value.toUpperCase();
+    cursor.expectWord("CONTAINER");
+    const nameToken = cursor.expectIdentifier("a container name");
+    statement = {
+      kind: "lifecycle",
+      action,
+      container: { name: nameToken.value, position: nameToken.start },
+    };
+  } else {
+    return cursor.fail("SELECT, SHOW, LAUNCH or a container action");
+  }
+
+  if (!cursor.atEnd()) cursor.fail("end of statement");
+  return statement;
+};
+
+// Whether running `statement` may launch, remove or change the state of
+// containers, as LAUNCH, the container actions and their functions do.
+export const changesContainers = (statement: ParsedStatement) =>
+  statement.kind === "launch" ||
+  statement.kind === "lifecycle" ||
+  (statement.kind === "select" &&
+    statement.items.some(
+      (item) =>
+        item.kind === "call" &&
+        LIFECYCLE_ACTIONS.includes(item.fn.toUpperCase())
+    ));
+
+// The same for statement text. A statement the client cannot parse may still
+// run on the backend, so it counts as changing containers.
+export const statementChangesContainers = (text: string) => {
+  try {
+    return changesContainers(parseStatement(text));
+  } catch (error) {
+    if (error instanceof JaguraSyntaxError) return true;
+    throw error;
+  }
+};
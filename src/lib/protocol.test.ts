@@ -0,0 +1,202 @@
+import { describe, expect, it } from "vitest";
+import {
+  ErrorCode,
+  parseQueryResponse,
+  parseResultChunk,
+  toQueryError,
+} from "@/lib/protocol";
+import { ColumnType } from "@/lib/query-types";
+import {
+  TransportCancelledError,
+  TransportHttpError,
+  TransportNetworkError,
+  TransportTimeoutError,
+} from "@/lib/transport/types";
+
+describe("parseQueryResponse", () => {
+  it("reads a result set with typed columns", () => {
+    expect(
+      parseQueryResponse({
+        result: [
+          [
+            { name: "name", type: "container" },
+            { name: "cpus", type: "INT" },
+          ],
+          ["web", 2],
+          ["db", 4],
+        ],
+      })
+    ).toEqual({
+      kind: "resultSet",
+      columns: [
+        { name: "name", type: ColumnType.CONTAINER },
+        { name: "cpus", type: ColumnType.INT },
+      ],
+      rows: [
+        ["web", 2],
+        ["db", 4],
+      ],
+    });
+  });
+
+  it("accepts plain column names and unknown types", () => {
+    const response = parseQueryResponse({
+      result: [["name", { name: "size", type: "BIGINT" }]],
+    });
+    expect(response).toEqual({
+      kind: "resultSet",
+      columns: [
+        { name: "name", type: ColumnType.UNKNOWN },
+        { name: "size", type: ColumnType.UNKNOWN },
+      ],
+      rows: [],
+    });
+  });
+
+  it("treats an empty result as an ack", () => {
+    expect(parseQueryResponse({ result: [] })).toEqual({ kind: "ack" });
+  });
+
+  it("reads an ack", () => {
+    expect(
+      parseQueryResponse({ ack: { message: "Started", affected: 1 } })
+    ).toEqual({ kind: "ack", message: "Started", affected: 1 });
+    expect(parseQueryResponse({ ack: null })).toEqual({
+      kind: "ack",
+      message: undefined,
+      affected: undefined,
+    });
+  });
+
+  it("reads an error with its position", () => {
+    expect(
+      parseQueryResponse({
+        error: {
+          code: "SYNTAX_ERROR",
+          message: "Unexpected FROM",
+          statement: 2,
+          line: 1,
+          column: 8,
+        },
+      })
+    ).toEqual({
+      kind: "error",
+      code: "SYNTAX_ERROR",
+      message: "Unexpected FROM",
+      position: { statement: 2, line: 1, column: 8, offset: undefined },
+    });
+  });
+
+  it("reads a plain string error", () => {
+    expect(parseQueryResponse({ error: "No such table" })).toEqual({
+      kind: "error",
+      code: ErrorCode.QUERY_ERROR,
+      message: "No such table",
+    });
+  });
+
+  it("reads the legacy error shape inside result", () => {
+    expect(parseQueryResponse({ result: [[""], ["boom"]] })).toEqual({
+      kind: "error",
+      code: ErrorCode.QUERY_ERROR,
+      message: "boom",
+    });
+  });
+
+  it.each([
+    ["a non-object", "oops"],
+    ["an array", [1, 2]],
+    ["an unknown envelope", { data: [] }],
+    ["a non-array result", { result: "rows" }],
+    ["a row that is not an array", { result: [["name"], "web"] }],
+    ["a bad column descriptor", { result: [[42]] }],
+    ["an error without a message", { error: { code: "X" } }],
+  ])("rejects %s as an invalid response", (_, payload) => {
+    const response = parseQueryResponse(payload);
+    expect(response.kind).toBe("error");
+    expect(response).toMatchObject({ code: ErrorCode.INVALID_RESPONSE });
+  });
+});
+
+describe("parseResultChunk", () => {
+  it("reads the first chunk with its columns", () => {
+    expect(
+      parseResultChunk({
+        columns: [{ name: "name", type: "CONTAINER" }],
+        rows: [["web"]],
+      })
+    ).toEqual({
+      columns: [{ name: "name", type: ColumnType.CONTAINER }],
+      rows: [["web"]],
+    });
+  });
+
+  it("reads later chunks of rows only", () => {
+    expect(parseResultChunk({ rows: [["db"], ["cache"]] })).toEqual({
+      rows: [["db"], ["cache"]],
+    });
+  });
+
+  it("returns null for other payloads and malformed chunks", () => {
+    expect(parseResultChunk({ result: [] })).toBeNull();
+    expect(parseResultChunk("text")).toBeNull();
+    expect(parseResultChunk({ rows: ["web"] })).toBeNull();
+    expect(parseResultChunk({ columns: "name" })).toBeNull();
+    expect(parseResultChunk({ columns: [null], rows: [] })).toBeNull();
+  });
+});
+
+describe("toQueryError", () => {
+  it("maps timeouts and cancellation", () => {
+    expect(toQueryError(new TransportTimeoutError(5000))).toMatchObject({
+      code: ErrorCode.TIMEOUT,
+      message: "Query timed out after 5s.",
+    });
+    expect(toQueryError(new TransportCancelledError())).toMatchObject({
+      code: ErrorCode.CANCELLED,
+    });
+  });
+
+  it("uses a structured error from an HTTP error body", () => {
+    const body = JSON.stringify({
+      error: { code: "NOT_FOUND", message: "No such container", line: 1 },
+    });
+    expect(
+      toQueryError(new TransportHttpError(404, "Not Found", body))
+    ).toMatchObject({
+      code: "NOT_FOUND",
+      message: "No such container",
+      httpStatus: 404,
+      position: { line: 1 },
+    });
+  });
+
+  it("keeps a raw HTTP error body as details", () => {
+    expect(
+      toQueryError(new TransportHttpError(502, "Bad Gateway", "<html>"))
+    ).toEqual({
+      kind: "error",
+      code: ErrorCode.HTTP_ERROR,
+      message: "Server responded with status 502 Bad Gateway",
+      httpStatus: 502,
+      details: "<html>",
+    });
+  });
+
+  it("maps network failures and anything else", () => {
+    expect(
+      toQueryError(new TransportNetworkError("http://db", new Error("refused")))
+    ).toMatchObject({
+      code: ErrorCode.NETWORK_ERROR,
+      message: "Could not reach http://db: refused",
+    });
+    expect(toQueryError(new Error("bug"))).toMatchObject({
+      code: ErrorCode.CLIENT_ERROR,
+      message: "bug",
+    });
+    expect(toQueryError("odd")).toMatchObject({
+      code: ErrorCode.CLIENT_ERROR,
+      message: "odd",
+    });
+  });
+});
@@ -0,0 +1,342 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { Column, ColumnType, QueryResult } from "@/lib/query-types";
+import {
+  TransportCancelledError,
+  TransportHttpError,
+  TransportNetworkError,
+  TransportTimeoutError,
+} from "@/lib/transport/types";
+
+// The backend answers with one of three envelopes:
+//
+//   { "result": [[<columns>], <row>, <row>, ...] }
+//   { "error": { "code", "message", "statement"?, "line"?, "column"?, "offset"? } }
+//   { "ack": { "message"?, "affected"? } }
+//
+// Older servers report errors inside "result" as [[""], ["<message>"]] and
+// may send plain column names instead of { name, type } descriptors.
+//
+// Servers that stream (NDJSON or Server-Sent Events) send any number of
+//
+//   { "progress": { "phase", "message"?, "percent"? } }
+//
+// events before the final envelope. They may also split a large result set
+// into chunks, the column descriptors first:
+//
+//   { "columns": [<columns>] }
+//   { "rows": [<row>, <row>, ...] }
+//
+// When the stream ends without a final envelope, the rows received make up
+// the result; an "error" envelope after some chunks still fails the query.
+
+export interface ResultSet extends QueryResult {
+  kind: "resultSet";
+  truncated?: boolean; // Fetching was stopped before the last row arrived
+}
+
+export interface ErrorPosition {
+  statement?: number; // 1-based index within the submitted script
+  line?: number; // 1-based
+  column?: number; // 1-based
+  offset?: number; // 0-based character offset within the submitted script
+}
+
+export interface QueryError {
+  kind: "error";
+  code: string;
+  message: string;
+  position?: ErrorPosition;
+  httpStatus?: number;
+  details?: string; // Raw body or stack worth showing when the message is not enough
+}
+
+export interface Ack {
+  kind: "ack";
+  message?: string;
+  affected?: number;
+}
+
+export type QueryResponse = ResultSet | QueryError | Ack;
+
+export interface QueryProgress {
+  phase: string; // e.g. "pulling_image", "starting_container"
+  message?: string;
+  percent?: number; // 0-100 within the current statement
+}
+
+// Part of a streamed result set; `columns` comes with the first chunk only
+export interface ResultChunk {
+  columns?: Column[];
+  rows: any[][];
+}
+
+export const ErrorCode = {
+  QUERY_ERROR: "QUERY_ERROR",
+  INVALID_RESPONSE: "INVALID_RESPONSE",
+  HTTP_ERROR: "HTTP_ERROR",
+  NETWORK_ERROR: "NETWORK_ERROR",
+  TIMEOUT: "TIMEOUT",
+  CANCELLED: "CANCELLED",
+  CLIENT_ERROR: "CLIENT_ERROR",
+} as const;
+
+const MAX_DETAILS_LENGTH = 2000;
+
+const COLUMN_TYPES = new Set<string>(Object.values(ColumnType));
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const optionalNumber = (value: unknown) =>
+  typeof value === "number" && Number.isFinite(value) ? value : undefined;
+
+const invalid = (message: string, payload?: unknown): QueryError => ({
+  kind: "error",
+  code: ErrorCode.INVALID_RESPONSE,
+  message: `Invalid response format from server: ${message}`,
+  details:
+    payload === undefined
+      ? undefined
+      : truncate(safeStringify(payload), MAX_DETAILS_LENGTH),
+});
+
+const truncate = (text: string, length: number) =>
+  text.length > length ? `${text.slice(0, length)}...` : text;
+
+const safeStringify = (value: unknown) => {
+  try {
+    return JSON.stringify(value);
+  } catch {
+    return String(value);
+  }
+};
+
+export const toColumnType = (type: unknown): ColumnType => {
+  const upper = typeof type === "string" ? type.toUpperCase() : "";
+  return COLUMN_TYPES.has(upper) ? (upper as ColumnType) : ColumnType.UNKNOWN;
+};
+
+const parseColumn = (descriptor: unknown): Column | null => {
+  if (typeof descriptor === "string") {
+    return { name: descriptor, type: ColumnType.UNKNOWN };
+  }
+  if (isObject(descriptor) && typeof descriptor.name === "string") {
+    return { name: descriptor.name, type: toColumnType(descriptor.type) };
+  }
+  return null;
+};
+
+const parseErrorEnvelope = (error: unknown): QueryError => {
+  if (typeof error === "string") {
+    return { kind: "error", code: ErrorCode.QUERY_ERROR, message: error };
+  }
+  if (!isObject(error) || typeof error.message !== "string") {
+    return invalid("error without a message", error);
+  }
+
+  const position: ErrorPosition = {
+    statement: optionalNumber(error.statement),
+    line: optionalNumber(error.line),
+    column: optionalNumber(error.column),
+    offset: optionalNumber(error.offset),
+  };
+  const hasPosition = Object.values(position).some((v) => v !== undefined);
+
+  return {
+    kind: "error",
+    code: typeof error.code === "string" ? error.code : ErrorCode.QUERY_ERROR,
+    message: error.message,
+    position: hasPosition ? position : undefined,
+  };
+};
+
+const parseResultRows = (data: unknown): QueryResponse => {
+  if (!Array.isArray(data)) {
+    return invalid('"result" is not an array', data);
+  }
+  // Statements without output may come back as an empty result.
+  if (data.length === 0) {
+    return { kind: "ack" };
+  }
+  if (!data.every(Array.isArray)) {
+    return invalid('every row of "result" must be an array', data);
+  }
+
+  const [header, ...rows] = data as unknown[][];
+
+  if (header.length === 1 && header[0] === "") {
+    const message = rows[0]?.[0];
+    return {
+      kind: "error",
+      code: ErrorCode.QUERY_ERROR,
+      message:
+        typeof message === "string" && message
+          ? message
+          : "The server reported an error without a message.",
+    };
+  }
+
+  const columns = header.map(parseColumn);
+  if (columns.some((column) => column === null)) {
+    return invalid(
+      "column descriptors must be names or { name, type }",
+      header
+    );
+  }
+
+  return { kind: "resultSet", columns: columns as Column[], rows };
+};
+
+export const parseQueryResponse = (payload: unknown): QueryResponse => {
+  if (!isObject(payload)) {
+    return invalid("expected a JSON object", payload);
+  }
+  if ("error" in payload) {
+    return parseErrorEnvelope(payload.error);
+  }
+  if ("ack" in payload) {
+    const ack = isObject(payload.ack) ? payload.ack : {};
+    return {
+      kind: "ack",
+      message: typeof ack.message === "string" ? ack.message : undefined,
+      affected: optionalNumber(ack.affected),
+    };
+  }
+  if ("result" in payload) {
+    return parseResultRows(payload.result);
+  }
+  return invalid('expected "result", "error" or "ack"', payload);
+};
+
+// Whether `value` has the shape parseQueryResponse gives, as a response kept
+// in a saved workspace should.
+export const isQueryResponse = (value: unknown): value is QueryResponse => {
+  if (!isObject(value)) return false;
+  switch (value.kind) {
+    case "resultSet":
+      return (
+        Array.isArray(value.columns) &&
+        value.columns.every(
+          (column: unknown) =>
+            isObject(column) &&
+            typeof column.name === "string" &&
+            COLUMN_TYPES.has(column.type)
+        ) &&
+        Array.isArray(value.rows) &&
+        value.rows.every(Array.isArray)
+      );
+    case "error":
+      return (
+        typeof value.code === "string" &&
+        typeof value.message === "string" &&
+        (value.position === undefined || isObject(value.position))
+      );
+    case "ack":
+      return (
+        (value.message === undefined || typeof value.message === "string") &&
+        (value.affected === undefined || typeof value.affected === "number")
+      );
+    default:
+      return false;
+  }
+};
+
+// Returns the progress event carried by a streamed payload, or null when the
+// payload is something else (normally the final envelope).
+export const parseProgressEvent = (payload: unknown): QueryProgress | null => {
+  if (!isObject(payload) || !isObject(payload.progress)) return null;
+  const { phase, message, percent } = payload.progress;
+  if (typeof phase !== "string") return null;
+  const value = optionalNumber(percent);
+  return {
+    phase,
+    message: typeof message === "string" ? message : undefined,
+    percent:
+      value === undefined ? undefined : Math.min(Math.max(value, 0), 100),
+  };
+};
+
+// Returns the result chunk carried by a streamed payload, or null when the
+// payload is something else or not a well-formed chunk.
+export const parseResultChunk = (payload: unknown): ResultChunk | null => {
+  if (!isObject(payload) || !("columns" in payload || "rows" in payload)) {
+    return null;
+  }
+  const rows = payload.rows ?? [];
+  if (!Array.isArray(rows) || !rows.every(Array.isArray)) return null;
+  if (!("columns" in payload)) return { rows };
+
+  if (!Array.isArray(payload.columns)) return null;
+  const columns = payload.columns.map(parseColumn);
+  if (columns.some((column) => column === null)) return null;
+  return { columns: columns as Column[], rows };
+};
+
+// Maps anything a transport can throw to a QueryError the UI can render.
+export const toQueryError = (error: unknown): QueryError => {
+  if (error instanceof TransportTimeoutError) {
+    return { kind: "error", code: ErrorCode.TIMEOUT, message: error.message };
+  }
+
+  if (error instanceof TransportCancelledError) {
+    return { kind: "error", code: ErrorCode.CANCELLED, message: error.message };
+  }
+
+  if (error instanceof TransportHttpError) {
+    let structured: QueryError | null = null;
+    try {
+      const body: unknown = JSON.parse(error.body);
+      if (isObject(body) && "error" in body) {
+        structured = parseErrorEnvelope(body.error);
+      }
+    } catch {
+      // Not JSON; fall back to the raw body below.
+    }
+    if (structured && structured.code !== ErrorCode.INVALID_RESPONSE) {
+      return { ...structured, httpStatus: error.status };
+    }
+    return {
+      kind: "error",
+      code: ErrorCode.HTTP_ERROR,
+      message: error.message,
+      httpStatus: error.status,
+      details: error.body
+        ? truncate(error.body, MAX_DETAILS_LENGTH)
+        : undefined,
+    };
+  }
+
+  if (error instanceof TransportNetworkError) {
+    return {
+      kind: "error",
+      code: ErrorCode.NETWORK_ERROR,
+      message: error.message,
+    };
+  }
+
+  return {
+    kind: "error",
+    code: ErrorCode.CLIENT_ERROR,
+    message: error instanceof Error ? error.message : String(error),
+  };
+};
+
+export const isCancelled = (response: QueryResponse) =>
+  response.kind === "error" && response.code === ErrorCode.CANCELLED;
+
+export const describeErrorPosition = ({
+  statement,
+  line,
+  column,
+  offset,
+}: ErrorPosition) =>
+  [
+    statement !== undefined ? `statement ${statement}` : null,
+    line !== undefined
+      ? `line ${line}${column !== undefined ? `, column ${column}` : ""}`
+      : offset !== undefined
+        ? `offset ${offset}`
+        : null,
+  ]
+    .filter(Boolean)
+    .join(", ");
@@ -0,0 +1,42 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+export enum ColumnType {
+  NUMBER = "NUMBER",
+  INT = "INT",
+  STRING = "STRING",
+  BOOLEAN = "BOOLEAN",
+  CONTAINER = "CONTAINER",
+  METADATA = "METADATA",
+  RUN_CMD = "RUN_CMD",
+  UNKNOWN = "UNKNOWN",
+  START = "START",
+  STOP = "STOP",
+  PAUSE = "PAUSE",
+  UNPAUSE = "UNPAUSE",
+  REMOVE = "REMOVE",
+  RESTART = "RESTART",
+  KILL = "KILL",
+  COUNT = "COUNT",
+  SUM = "SUM",
+  LENGTH = "LENGTH",
+}
+
+const NUMERIC_TYPES = new Set<ColumnType>([
+  ColumnType.NUMBER,
+  ColumnType.INT,
+  ColumnType.COUNT,
+  ColumnType.SUM,
+  ColumnType.LENGTH,
+]);
+
+// Whether a column of this type holds numbers
+export const isNumericType = (type: ColumnType) => NUMERIC_TYPES.has(type);
+
+export interface Column {
+  name: string;
+  type: ColumnType;
+}
+
+export interface QueryResult {
+  columns: Column[];
+  rows: any[][];
+}
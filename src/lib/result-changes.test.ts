@@ -0,0 +1,142 @@
+import { describe, expect, it } from "vitest";
+import { Column, ColumnType, QueryResult } from "@/lib/query-types";
+import {
+  changedCells,
+  defaultDiffKey,
+  diffKeyCandidates,
+  diffResults,
+} from "@/lib/result-changes";
+
+const columns: Column[] = [
+  { name: "name", type: ColumnType.CONTAINER },
+  { name: "state", type: ColumnType.STRING },
+];
+
+const result = (rows: unknown[][], cols = columns): QueryResult => ({
+  columns: cols,
+  rows,
+});
+
+describe("changedCells", () => {
+  it("matches rows by container, whatever their order", () => {
+    const after = result([
+      ["db", "exited"],
+      ["web", "running"],
+    ]);
+    const changes = changedCells(
+      result([
+        ["web", "running"],
+        ["db", "running"],
+      ]),
+      after
+    );
+    expect([...changes]).toEqual([[after.rows[0], new Set([1])]]);
+  });
+
+  it("counts new rows and new columns as changed", () => {
+    const after = result(
+      [
+        ["web", "running", 2],
+        ["cache", "running", 1],
+      ],
+      [...columns, { name: "cpus", type: ColumnType.INT }]
+    );
+    const changes = changedCells(result([["web", "running"]]), after);
+    expect(changes.get(after.rows[0])).toEqual(new Set([2]));
+    expect(changes.get(after.rows[1])).toEqual(new Set([0, 1, 2]));
+  });
+
+  it("matches rows by position when no column has unique values", () => {
+    const plain: Column[] = [{ name: "state", type: ColumnType.STRING }];
+    const after = result([["running"], ["exited"]], plain);
+    const changes = changedCells(
+      result([["running"], ["running"]], plain),
+      after
+    );
+    expect([...changes.keys()]).toEqual([after.rows[1]]);
+  });
+});
+
+describe("defaultDiffKey", () => {
+  it("prefers a CONTAINER column both results have", () => {
+    const before = result([], [columns[1], columns[0]]);
+    expect(diffKeyCandidates(before, result([]))).toEqual(["name", "state"]);
+    expect(defaultDiffKey(before, result([]))).toBe("name");
+  });
+
+  it("is null when the results share no column", () => {
+    const other: Column[] = [{ name: "id", type: ColumnType.INT }];
+    expect(defaultDiffKey(result([], other), result([]))).toBeNull();
+  });
+});
+
+describe("diffResults", () => {
+  it("reports added, removed, changed and unchanged rows", () => {
+    const diff = diffResults(
+      result([
+        ["web", "running"],
+        ["db", "running"],
+        ["old", "exited"],
+      ]),
+      result([
+        ["db", "exited"],
+        ["web", "running"],
+        ["new", "created"],
+      ]),
+      "name"
+    );
+    expect(
+      diff.rows.map(({ status, before, after }) => [status, before, after])
+    ).toEqual([
+      ["changed", ["db", "running"], ["db", "exited"]],
+      ["unchanged", ["web", "running"], ["web", "running"]],
+      ["added", null, ["new", "created"]],
+      ["removed", ["old", "exited"], null],
+    ]);
+    expect(diff.rows[0].changed).toEqual(new Set([1]));
+    expect(diff.counts).toEqual({
+      added: 1,
+      removed: 1,
+      changed: 1,
+      unchanged: 1,
+    });
+  });
+
+  it("pairs rows sharing a key in order", () => {
+    const diff = diffResults(
+      result([
+        ["web", "running"],
+        ["web", "paused"],
+        ["web", "exited"],
+      ]),
+      result([
+        ["web", "running"],
+        ["web", "exited"],
+      ]),
+      "name"
+    );
+    expect(diff.rows.map((row) => [row.status, row.before])).toEqual([
+      ["unchanged", ["web", "running"]],
+      ["changed", ["web", "paused"]],
+      ["removed", ["web", "exited"]],
+    ]);
+  });
+
+  it("aligns columns by name, adding those only the earlier result has", () => {
+    const diff = diffResults(
+      result(
+        [["web", 2, "running"]],
+        [columns[0], { name: "cpus", type: ColumnType.INT }, columns[1]]
+      ),
+      result([["running", "web"]], [columns[1], columns[0]]),
+      "name"
+    );
+    expect(diff.columns).toEqual(["state", "name", "cpus"]);
+    expect(diff.rows[0]).toMatchObject({
+      status: "changed",
+      before: ["running", "web", 2],
+      after: ["running", "web", undefined],
+      changed: new Set([2]),
+    });
+  });
+});
@@ -0,0 +1,185 @@
+import { cellText } from "@/lib/cells";
+import { Column, ColumnType, QueryResult } from "@/lib/query-types";
+
+// Cells of a result that differ from an earlier run of the same query, by
+// row (the row arrays of the later result) and column index.
+export type ChangedCells = Map<unknown[], Set<number>>;
+
+const hasUniqueValues = (rows: unknown[][], index: number) => {
+  const seen = new Set<string>();
+  return rows.every((row) => {
+    const text = cellText(row[index]);
+    if (seen.has(text)) return false;
+    seen.add(text);
+    return true;
+  });
+};
+
+// Column identifying a row across both results: a CONTAINER column if
+// there is one, else the first column, as long as its values are unique in
+// each result. Null when rows can only be matched by position.
+const keyColumnFor = (before: QueryResult, after: QueryResult) => {
+  const candidates = [
+    after.columns.findIndex((column) => column.type === ColumnType.CONTAINER),
+    0,
+  ];
+  for (const index of candidates) {
+    if (index === -1 || index >= after.columns.length) continue;
+    const beforeIndex = before.columns.findIndex(
+      (column) => column.name === after.columns[index].name
+    );
+    if (
+      beforeIndex !== -1 &&
+      hasUniqueValues(after.rows, index) &&
+      hasUniqueValues(before.rows, beforeIndex)
+    ) {
+      return { after: index, before: beforeIndex };
+    }
+  }
+  return null;
+};
+
+const columnIndexes = (before: Column[], after: Column[]) =>
+  after.map((column) =>
+    before.findIndex((candidate) => candidate.name === column.name)
+  );
+
+// Compares two runs of a query. Rows are matched by a key column where one
+// can be found, else by position; columns by name. Rows with no earlier
+// counterpart count as changed throughout.
+export const changedCells = (
+  before: QueryResult,
+  after: QueryResult
+): ChangedCells => {
+  const key = keyColumnFor(before, after);
+  const beforeColumns = columnIndexes(before.columns, after.columns);
+  const beforeByKey = key
+    ? new Map(before.rows.map((row) => [cellText(row[key.before]), row]))
+    : null;
+
+  const changes: ChangedCells = new Map();
+  after.rows.forEach((row, rowIndex) => {
+    const previous = beforeByKey
+      ? beforeByKey.get(cellText(row[key!.after]))
+      : before.rows[rowIndex];
+    const changed = new Set<number>();
+    after.columns.forEach((_, index) => {
+      const beforeIndex = beforeColumns[index];
+      if (
+        !previous ||
+        beforeIndex === -1 ||
+        cellText(previous[beforeIndex]) !== cellText(row[index])
+      ) {
+        changed.add(index);
+      }
+    });
+    if (changed.size > 0) changes.set(row, changed);
+  });
+  return changes;
+};
+
+export type DiffStatus = "added" | "removed" | "changed" | "unchanged";
+
+// One row of a diff, with the values of both sides aligned to the diff's
+// columns. A side is null for added and removed rows.
+export interface DiffRow {
+  status: DiffStatus;
+  before: unknown[] | null;
+  after: unknown[] | null;
+  changed: Set<number>; // Indexes of the diff columns that differ
+}
+
+export interface ResultDiff {
+  columns: string[]; // The later result's, then any only the earlier has
+  rows: DiffRow[]; // In the later result's order, removed rows last
+  counts: Record<DiffStatus, number>;
+}
+
+// Names of the columns both results have, which rows can be keyed on
+export const diffKeyCandidates = (before: QueryResult, after: QueryResult) =>
+  after.columns
+    .map((column) => column.name)
+    .filter((name) => before.columns.some((column) => column.name === name));
+
+// A CONTAINER column both results have, else the first column they share
+export const defaultDiffKey = (before: QueryResult, after: QueryResult) => {
+  const candidates = diffKeyCandidates(before, after);
+  const container = after.columns.find(
+    (column) =>
+      column.type === ColumnType.CONTAINER && candidates.includes(column.name)
+  );
+  return container?.name ?? candidates[0] ?? null;
+};
+
+// Compares two results row by row, matching rows on the value of the
+// `keyColumn` both have. Rows sharing a key are paired in order, so
+// duplicate keys still line up as far as they go.
+export const diffResults = (
+  before: QueryResult,
+  after: QueryResult,
+  keyColumn: string
+): ResultDiff => {
+  const columns = [
+    ...after.columns.map((column) => column.name),
+    ...before.columns
+      .map((column) => column.name)
+      .filter((name) => !after.columns.some((column) => column.name === name)),
+  ];
+  const align = (result: QueryResult) => {
+    const indexes = columns.map((name) =>
+      result.columns.findIndex((column) => column.name === name)
+    );
+    return (row: unknown[]) =>
+      indexes.map((index) => (index === -1 ? undefined : row[index]));
+  };
+  const alignBefore = align(before);
+  const alignAfter = align(after);
+  const keyIndex = columns.indexOf(keyColumn);
+
+  const unmatched = new Map<string, unknown[][]>();
+  before.rows.forEach((row) => {
+    const aligned = alignBefore(row);
+    const key = cellText(aligned[keyIndex]);
+    unmatched.set(key, [...(unmatched.get(key) ?? []), aligned]);
+  });
+
+  const rows: DiffRow[] = after.rows.map((row) => {
+    const aligned = alignAfter(row);
+    const previous = unmatched.get(cellText(aligned[keyIndex]))?.shift();
+    if (!previous) {
+      return {
+        status: "added",
+        before: null,
+        after: aligned,
+        changed: new Set(),
+      };
+    }
+    const changed = new Set(
+      columns
+        .map((_, index) => index)
+        .filter(
+          (index) => cellText(previous[index]) !== cellText(aligned[index])
+        )
+    );
+    return {
+      status: changed.size > 0 ? "changed" : "unchanged",
+      before: previous,
+      after: aligned,
+      changed,
+    };
+  });
+  unmatched.forEach((remaining) =>
+    remaining.forEach((row) =>
+      rows.push({
+        status: "removed",
+        before: row,
+        after: null,
+        changed: new Set(),
+      })
+    )
+  );
+
+  const counts = { added: 0, removed: 0, changed: 0, unchanged: 0 };
+  rows.forEach((row) => counts[row.status]++);
+  return { columns, rows, counts };
+};
@@ -0,0 +1,208 @@
+export interface SavedQuery {
+  id: string;
+  name: string;
+  folder: string; // Empty for queries that are not filed anywhere
+  tags: string[];
+  description: string;
+  query: string;
+  updatedAt: string; // ISO timestamp
+}
+
+export interface SavedQueryFolder {
+  name: string;
+  queries: SavedQuery[];
+}
+
+export interface LibraryImportResult {
+  queries: SavedQuery[];
+  added: number;
+  replaced: number;
+}
+
+const STORAGE_KEY = "jagura.savedQueries";
+
+// Version of the exported JSON file, so older exports can still be imported
+// if the format ever changes.
+export const LIBRARY_FILE_VERSION = 1;
+
+const DEFAULT_SAVED_QUERIES: SavedQuery[] = [
+  {
+    id: "example-show-tables",
+    name: "Show tables",
+    folder: "Examples",
+    tags: ["schema"],
+    description: "Lists the tables that can be queried.",
+    query: "SHOW TABLES;",
+    updatedAt: "2024-01-01T00:00:00.000Z",
+  },
+  {
+    id: "example-launch-container",
+    name: "Launch a container",
+    folder: "Examples",
+    tags: ["containers", "lifecycle"],
+    description: "Creates a container from an image and starts it.",
+    query:
+      "LAUNCH CONTAINER my_container FROM 'nginx:latest';\nSTART CONTAINER my_container;",
+    updatedAt: "2024-01-01T00:00:00.000Z",
+  },
+  {
+    id: "example-container-metadata",
+    name: "Container metadata",
+    folder: "Examples",
+    tags: ["containers"],
+    description: "Inspects every running container.",
+    query:
+      "SELECT name, metadata(name) AS metadata\nFROM containers\nWHERE running = true;",
+    updatedAt: "2024-01-01T00:00:00.000Z",
+  },
+];
+
+const isSavedQuery = (value: unknown): value is SavedQuery => {
+  if (typeof value !== "object" || value === null) return false;
+  const entry = value as Record<string, unknown>;
+  return (
+    typeof entry.id === "string" &&
+    typeof entry.name === "string" &&
+    typeof entry.query === "string"
+  );
+};
+
+// Fills in optional fields so hand-edited or older files still load.
+const normalizeSavedQuery = (entry: SavedQuery): SavedQuery => ({
+  id: entry.id,
+  name: entry.name,
+  folder: typeof entry.folder === "string" ? entry.folder.trim() : "",
+  tags: Array.isArray(entry.tags)
+    ? entry.tags.filter((tag): tag is string => typeof tag === "string")
+    : [],
+  description: typeof entry.description === "string" ? entry.description : "",
+  query: entry.query,
+  updatedAt:
+    typeof entry.updatedAt === "string"
+      ? entry.updatedAt
+      : new Date().toISOString(),
+});
+
+export const loadSavedQueries = (): SavedQuery[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_SAVED_QUERIES;
+    const parsed: unknown = JSON.parse(raw);
+    return Array.isArray(parsed)
+      ? parsed.filter(isSavedQuery).map(normalizeSavedQuery)
+      : DEFAULT_SAVED_QUERIES;
+  } catch (error) {
+    console.error("Error loading saved queries:", error);
+    return DEFAULT_SAVED_QUERIES;
+  }
+};
+
+export const saveSavedQueries = (queries: SavedQuery[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(queries));
+  } catch (error) {
+    console.error("Error saving saved queries:", error);
+  }
+};
+
+// "ops, Lifecycle ,, ops" -> ["ops", "lifecycle"]
+export const parseTags = (input: string) =>
+  Array.from(
+    new Set(
+      input
+        .split(",")
+        .map((tag) => tag.trim().toLowerCase())
+        .filter(Boolean)
+    )
+  );
+
+// Groups queries by folder, unfiled queries last, both sorted by name.
+export const groupByFolder = (queries: SavedQuery[]): SavedQueryFolder[] => {
+  const folders = new Map<string, SavedQuery[]>();
+  queries.forEach((query) => {
+    folders.set(query.folder, [...(folders.get(query.folder) ?? []), query]);
+  });
+  return Array.from(folders, ([name, entries]) => ({
+    name,
+    queries: entries.sort((a, b) => a.name.localeCompare(b.name)),
+  })).sort((a, b) =>
+    !a.name ? 1 : !b.name ? -1 : a.name.localeCompare(b.name)
+  );
+};
+
+export const searchSavedQueries = (queries: SavedQuery[], search: string) => {
+  const terms = search.toLowerCase().split(/\s+/).filter(Boolean);
+  return queries.filter((entry) => {
+    const haystack = [
+      entry.name,
+      entry.folder,
+      entry.description,
+      entry.query,
+      ...entry.tags.map((tag) => `#${tag}`),
+    ]
+      .join(" ")
+      .toLowerCase();
+    return terms.every((term) => haystack.includes(term));
+  });
+};
+
+export const exportLibrary = (queries: SavedQuery[]) =>
+  JSON.stringify(
+    {
+      version: LIBRARY_FILE_VERSION,
+      exportedAt: new Date().toISOString(),
+      queries,
+    },
+    null,
+    2
+  );
+
+// Merges an exported library into `existing`. Queries with an id that is
+// already present replace the local copy, so re-importing a shared file
+// updates it instead of duplicating every entry.
+export const importLibrary = (
+  existing: SavedQuery[],
+  fileContent: string
+): LibraryImportResult => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fileContent);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+
+  // Plain arrays are accepted too, for libraries written by hand.
+  const file = parsed as { version?: unknown; queries?: unknown };
+  const entries = Array.isArray(parsed) ? parsed : file?.queries;
+  if (
+    typeof file?.version === "number" &&
+    file.version > LIBRARY_FILE_VERSION
+  ) {
+    throw new Error(
+      `The file was exported by a newer version (format ${file.version}).`
+    );
+  }
+  if (!Array.isArray(entries)) {
+    throw new Error("The file does not contain a saved query library.");
+  }
+
+  const imported = entries.filter(isSavedQuery).map(normalizeSavedQuery);
+  if (imported.length === 0 && entries.length > 0) {
+    throw new Error("None of the entries in the file are saved queries.");
+  }
+
+  const queries = [...existing];
+  let added = 0;
+  let replaced = 0;
+  imported.forEach((entry) => {
+    const index = queries.findIndex((query) => query.id === entry.id);
+    if (index === -1) {
+      queries.push(entry);
+      added++;
+    } else {
+      queries[index] = entry;
+      replaced++;
+    }
+  });
+  return { queries, added, replaced };
+};
@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest";
+import { Column, ColumnType } from "@/lib/query-types";
+import { sortRows, toggleSort } from "@/lib/sort";
+
+const column = (type: ColumnType): Column => ({ name: type, type });
+
+describe("sortRows", () => {
+  it("sorts numeric columns by value, not as text", () => {
+    const rows = [["10"], [9], ["1.5"]];
+    expect(
+      sortRows(
+        rows,
+        [column(ColumnType.INT)],
+        [{ column: 0, direction: "asc" }]
+      )
+    ).toEqual([["1.5"], [9], ["10"]]);
+  });
+
+  it("puts nulls last in either direction", () => {
+    const rows = [[null], [2], [undefined], [1]];
+    const columns = [column(ColumnType.NUMBER)];
+    expect(sortRows(rows, columns, [{ column: 0, direction: "asc" }])).toEqual([
+      [1],
+      [2],
+      [null],
+      [undefined],
+    ]);
+    expect(sortRows(rows, columns, [{ column: 0, direction: "desc" }])).toEqual(
+      [[2], [1], [null], [undefined]]
+    );
+  });
+
+  it("compares text naturally and without case", () => {
+    const rows = [["web10"], ["Web2"], ["db"]];
+    expect(
+      sortRows(
+        rows,
+        [column(ColumnType.STRING)],
+        [{ column: 0, direction: "asc" }]
+      )
+    ).toEqual([["db"], ["Web2"], ["web10"]]);
+  });
+
+  it("sorts untyped columns by what their values look like", () => {
+    const rows = [["2024-03-01"], ["2023-12-31T10:00:00Z"], ["text"], [5]];
+    expect(
+      sortRows(
+        rows,
+        [column(ColumnType.UNKNOWN)],
+        [{ column: 0, direction: "asc" }]
+      )
+    ).toEqual([[5], ["2023-12-31T10:00:00Z"], ["2024-03-01"], ["text"]]);
+  });
+
+  it("breaks ties with the next key", () => {
+    const rows = [
+      ["a", 1],
+      ["b", 2],
+      ["a", 3],
+    ];
+    expect(
+      sortRows(
+        rows,
+        [column(ColumnType.STRING), column(ColumnType.INT)],
+        [
+          { column: 0, direction: "asc" },
+          { column: 1, direction: "desc" },
+        ]
+      )
+    ).toEqual([
+      ["a", 3],
+      ["a", 1],
+      ["b", 2],
+    ]);
+  });
+
+  it("leaves the rows untouched", () => {
+    const rows = [[2], [1]];
+    sortRows(rows, [column(ColumnType.INT)], [{ column: 0, direction: "asc" }]);
+    expect(rows).toEqual([[2], [1]]);
+    expect(sortRows(rows, [column(ColumnType.INT)], [])).toBe(rows);
+  });
+});
+
+describe("toggleSort", () => {
+  it("cycles one column through ascending, descending and off", () => {
+    const asc = toggleSort([], 1, false);
+    expect(asc).toEqual([{ column: 1, direction: "asc" }]);
+    const desc = toggleSort(asc, 1, false);
+    expect(desc).toEqual([{ column: 1, direction: "desc" }]);
+    expect(toggleSort(desc, 1, false)).toEqual([]);
+  });
+
+  it("replaces a multi-column sort on a plain click", () => {
+    const sort = [
+      { column: 0, direction: "desc" as const },
+      { column: 1, direction: "asc" as const },
+    ];
+    expect(toggleSort(sort, 0, false)).toEqual([
+      { column: 0, direction: "asc" },
+    ]);
+  });
+
+  it("adds and cycles columns on a Shift+click", () => {
+    const sort = toggleSort([{ column: 0, direction: "asc" }], 2, true);
+    expect(sort).toEqual([
+      { column: 0, direction: "asc" },
+      { column: 2, direction: "asc" },
+    ]);
+    expect(toggleSort(sort, 0, true)).toEqual([
+      { column: 0, direction: "desc" },
+      { column: 2, direction: "asc" },
+    ]);
+    expect(toggleSort(toggleSort(sort, 2, true), 2, true)).toEqual([
+      { column: 0, direction: "asc" },
+    ]);
+  });
+});
@@ -0,0 +1,132 @@
+import { Column, ColumnType, isNumericType } from "@/lib/query-types";
+
+export type SortDirection = "asc" | "desc";
+
+// One column of a multi-column sort; the first key has the highest priority.
+export interface SortKey {
+  column: number;
+  direction: SortDirection;
+}
+
+const ISO_DATE =
+  /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+const collator = new Intl.Collator(undefined, {
+  numeric: true,
+  sensitivity: "base",
+});
+
+// Values reduced to something comparable. Numbers (and booleans and dates,
+// as numbers) sort before text when a column mixes both.
+type SortValue = { kind: 0; value: number } | { kind: 1; value: string };
+
+const asText = (value: unknown): SortValue => ({
+  kind: 1,
+  value: typeof value === "object" ? JSON.stringify(value) : String(value),
+});
+
+const asNumber = (value: unknown): SortValue | null => {
+  if (typeof value === "number") return { kind: 0, value };
+  if (typeof value !== "string" || value.trim() === "") return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? { kind: 0, value: number } : null;
+};
+
+const asBoolean = (value: unknown): SortValue | null => {
+  if (typeof value === "boolean") return { kind: 0, value: Number(value) };
+  const text = String(value).toLowerCase();
+  if (text === "true" || text === "false") {
+    return { kind: 0, value: text === "true" ? 1 : 0 };
+  }
+  return null;
+};
+
+const asDate = (value: unknown): SortValue | null => {
+  if (typeof value !== "string" || !ISO_DATE.test(value)) return null;
+  const time = Date.parse(value);
+  return Number.isFinite(time) ? { kind: 0, value: time } : null;
+};
+
+// Sorts by the declared type; columns without a useful one are sorted by
+// what their values look like.
+const toSortValue = (value: unknown, type: ColumnType): SortValue => {
+  if (isNumericType(type)) return asNumber(value) ?? asText(value);
+  if (type === ColumnType.BOOLEAN) return asBoolean(value) ?? asText(value);
+  if (type === ColumnType.STRING) return asText(value);
+  return (
+    asNumber(value) ??
+    (typeof value === "boolean" ? asBoolean(value) : null) ??
+    asDate(value) ??
+    asText(value)
+  );
+};
+
+const compareSortValues = (a: SortValue, b: SortValue) => {
+  if (a.kind !== b.kind) return a.kind - b.kind;
+  return a.kind === 0
+    ? a.value - (b.value as number)
+    : collator.compare(a.value, b.value as string);
+};
+
+// Returns the rows in sort order, leaving `rows` untouched so the server's
+// order can be restored. Nulls always come last, whatever the direction.
+export const sortRows = (
+  rows: unknown[][],
+  columns: Column[],
+  sort: SortKey[]
+): unknown[][] => {
+  const keys = sort.filter((key) => key.column < columns.length);
+  if (keys.length === 0) return rows;
+
+  const decorated = rows.map((row) => ({
+    row,
+    values: keys.map(({ column }) => {
+      const value = row[column];
+      return value === null || value === undefined
+        ? null
+        : toSortValue(value, columns[column].type);
+    }),
+  }));
+
+  decorated.sort((a, b) => {
+    for (let i = 0; i < keys.length; i++) {
+      const left = a.values[i];
+      const right = b.values[i];
+      if (left === null || right === null) {
+        if (left !== right) return left === null ? 1 : -1;
+        continue;
+      }
+      const order = compareSortValues(left, right);
+      if (order !== 0) return keys[i].direction === "asc" ? order : -order;
+    }
+    return 0;
+  });
+  return decorated.map(({ row }) => row);
+};
+
+// Applies a click on a column header. A plain click sorts by that column
+// alone, cycling ascending, descending and back to the server order; with
+// `multi` (Shift+click) the column is added to or cycled within the sort.
+export const toggleSort = (
+  sort: SortKey[],
+  column: number,
+  multi: boolean
+): SortKey[] => {
+  const existing = sort.find((key) => key.column === column);
+  const next = (key?: SortKey): SortKey | null =>
+    !key
+      ? { column, direction: "asc" }
+      : key.direction === "asc"
+        ? { column, direction: "desc" }
+        : null;
+
+  if (!multi) {
+    const key = next(sort.length === 1 ? existing : undefined);
+    return key ? [key] : [];
+  }
+  if (!existing) return [...sort, { column, direction: "asc" }];
+  const key = next(existing);
+  return key
+    ? sort.map((entry) => (entry.column === column ? key : entry))
+    : sort.filter((entry) => entry.column !== column);
+};
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import {
+  findStatementAt,
+  splitStatements,
+  toScriptPosition,
+} from "@/lib/statements";
+
+describe("splitStatements", () => {
+  it("splits on semicolons and records where each statement is", () => {
+    expect(splitStatements("SHOW TABLES;\n  STOP CONTAINER web ;")).toEqual([
+      { text: "SHOW TABLES", start: 0, end: 11 },
+      { text: "STOP CONTAINER web", start: 15, end: 33 },
+    ]);
+  });
+
+  it("ignores semicolons in strings and comments", () => {
+    const source =
+      "SELECT name FROM containers WHERE name = 'a;b' -- c;d\n;" +
+      'SELECT "x;""y" FROM t';
+    expect(splitStatements(source).map((statement) => statement.text)).toEqual([
+      "SELECT name FROM containers WHERE name = 'a;b' -- c;d",
+      'SELECT "x;""y" FROM t',
+    ]);
+  });
+
+  it("drops blank statements and those with only comments", () => {
+    expect(splitStatements(";;\n-- nothing here;\n ;")).toEqual([]);
+    expect(splitStatements("")).toEqual([]);
+  });
+});
+
+describe("findStatementAt", () => {
+  const source = "SHOW TABLES;\n\nSHOW CONTAINERS;";
+
+  it("finds the statement around the caret", () => {
+    expect(findStatementAt(source, 3)?.text).toBe("SHOW TABLES");
+    expect(findStatementAt(source, 20)?.text).toBe("SHOW CONTAINERS");
+  });
+
+  it("gives a caret between statements to the one before it", () => {
+    expect(findStatementAt(source, 12)?.text).toBe("SHOW TABLES");
+    expect(findStatementAt(source, 13)?.text).toBe("SHOW TABLES");
+  });
+
+  it("takes the first statement for a caret before it", () => {
+    expect(findStatementAt("  SHOW TABLES", 0)?.text).toBe("SHOW TABLES");
+  });
+
+  it("returns null without statements", () => {
+    expect(findStatementAt("-- just a comment", 5)).toBeNull();
+  });
+});
+
+describe("toScriptPosition", () => {
+  const source = "SHOW TABLES;\nSELECT name\nFROM nowhere";
+
+  it("rebases a line and column onto the script", () => {
+    expect(toScriptPosition({ line: 2, column: 6 }, source, 13, 2)).toEqual({
+      statement: 2,
+      offset: 30,
+      line: 3,
+      column: 6,
+    });
+  });
+
+  it("rebases an offset onto the script", () => {
+    expect(toScriptPosition({ offset: 7 }, source, 13, 2)).toEqual({
+      statement: 2,
+      offset: 20,
+      line: 2,
+      column: 8,
+    });
+  });
+
+  it("keeps only the statement number without a position", () => {
+    expect(toScriptPosition(undefined, source, 13, 2)).toEqual({
+      statement: 2,
+    });
+  });
+});
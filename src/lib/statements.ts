@@ -0,0 +1,110 @@
+import { ErrorPosition } from "@/lib/protocol";
+
+export interface Statement {
+  text: string; // Trimmed statement without its terminating ';'
+  start: number; // Offset of the first non-blank character in the source
+  end: number; // Offset just past the last non-blank character
+}
+
+// Splits a script on ';', ignoring semicolons inside quoted strings and
+// "--" comments. Statements that are blank or only comments are dropped.
+export const splitStatements = (source: string): Statement[] => {
+  const statements: Statement[] = [];
+  let segmentStart = 0;
+  let hasCode = false;
+  let i = 0;
+
+  const pushSegment = (segmentEnd: number) => {
+    const raw = source.slice(segmentStart, segmentEnd);
+    const text = raw.trim();
+    if (hasCode) {
+      const start = segmentStart + raw.indexOf(text);
+      statements.push({ text, start, end: start + text.length });
+    }
+  };
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (char === "'" || char === '"') {
+      hasCode = true;
+      i++;
+      while (i < source.length) {
+        if (source[i] === char && source[i + 1] === char) {
+          i += 2;
+        } else if (source[i] === char) {
+          break;
+        } else {
+          i++;
+        }
+      }
+      i++;
+    } else if (char === "-" && source[i + 1] === "-") {
+      while (i < source.length && source[i] !== "\n") i++;
+    } else if (char === ";") {
+      pushSegment(i);
+      segmentStart = i + 1;
+      hasCode = false;
+      i++;
+    } else {
+      if (!/\s/.test(char)) hasCode = true;
+      i++;
+    }
+  }
+
+  pushSegment(source.length);
+  return statements;
+};
+
+// Returns the statement containing the caret. A caret sitting between two
+// statements belongs to the one before it, so a caret just after ';' still
+// picks the statement it terminates.
+export const findStatementAt = (
+  source: string,
+  caret: number
+): Statement | null => {
+  const statements = splitStatements(source);
+  let found: Statement | null = statements[0] ?? null;
+  statements.forEach((statement) => {
+    if (statement.start <= caret) found = statement;
+  });
+  return found;
+};
+
+export const offsetToLineColumn = (source: string, offset: number) => {
+  const before = source.slice(0, offset).split("\n");
+  return { line: before.length, column: before[before.length - 1].length + 1 };
+};
+
+// Rebases a position the server reported for a single statement onto the
+// editor buffer the statement was taken from.
+export const toScriptPosition = (
+  position: ErrorPosition | undefined,
+  source: string,
+  statementStart: number,
+  statementNumber: number
+): ErrorPosition => {
+  let offset: number | undefined;
+
+  if (position?.offset !== undefined) {
+    offset = statementStart + position.offset;
+  } else if (position?.line !== undefined) {
+    offset = statementStart;
+    for (let line = 1; line < position.line; line++) {
+      const newline = source.indexOf("\n", offset);
+      if (newline === -1) break;
+      offset = newline + 1;
+    }
+    offset += (position.column ?? 1) - 1;
+  }
+
+  if (offset === undefined) {
+    return { statement: statementNumber };
+  }
+  const clamped = Math.min(offset, source.length);
+  return {
+    statement: statementNumber,
+    offset: clamped,
+    ...offsetToLineColumn(source, clamped),
+  };
+};
@@ -0,0 +1,188 @@
+import {
+  ConnectionProfile,
+  buildEndpoint,
+  buildRequestHeaders,
+} from "@/lib/connections";
+import {
+  HealthStatus,
+  QueryRequest,
+  QueryTransport,
+  RawQueryResponse,
+  TransportCancelledError,
+  TransportHttpError,
+  TransportNetworkError,
+  TransportTimeoutError,
+} from "@/lib/transport/types";
+import {
+  STREAM_ACCEPT_HEADER,
+  getStreamFormat,
+  readStreamedResponse,
+} from "@/lib/transport/stream";
+
+// Profiles whose backend answered the cancel endpoint with "not there", so
+// later cancellations only abort locally.
+const cancelUnsupported = new Set<string>();
+
+const CANCEL_UNSUPPORTED_STATUSES = [404, 405, 501];
+
+let nextQueryId = 0;
+
+export function createHttpTransport(
+  profile: ConnectionProfile
+): QueryTransport {
+  // In-flight requests and the id the server knows each query by
+  const inFlight = new Map<AbortController, string | undefined>();
+
+  // Ties the caller's signal and the timeout to a single controller.
+  const track = (
+    signal?: AbortSignal,
+    timeoutMs = profile.timeoutMs,
+    queryId?: string
+  ) => {
+    const controller = new AbortController();
+    let timedOut = false;
+    const timeoutId =
+      timeoutMs > 0
+        ? setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+          }, timeoutMs)
+        : undefined;
+    const onAbort = () => controller.abort();
+    if (signal?.aborted) controller.abort();
+    signal?.addEventListener("abort", onAbort);
+    inFlight.set(controller, queryId);
+
+    return {
+      signal: controller.signal,
+      timedOut: () => timedOut,
+      release: () => {
+        clearTimeout(timeoutId);
+        signal?.removeEventListener("abort", onAbort);
+        inFlight.delete(controller);
+      },
+    };
+  };
+
+  const execute = async ({
+    query,
+    signal,
+    timeoutMs = profile.timeoutMs,
+    onProgress,
+    onRows,
+  }: QueryRequest): Promise<RawQueryResponse> => {
+    // Lets a backend that supports cancellation find the query to stop
+    const queryId = `${Date.now()}-${nextQueryId++}`;
+    const request = track(signal, timeoutMs, queryId);
+    const endpoint = buildEndpoint(profile, "query");
+    try {
+      let response: Response;
+      try {
+        response = await fetch(endpoint, {
+          method: "POST",
+          headers: {
+            Accept: STREAM_ACCEPT_HEADER,
+            ...buildRequestHeaders(profile),
+          },
+          body: JSON.stringify({ query, queryId }),
+          signal: request.signal,
+        });
+      } catch (error) {
+        // fetch only rejects on aborts and network-level failures.
+        if (request.signal.aborted) throw error;
+        throw new TransportNetworkError(endpoint, error);
+      }
+
+      if (!response.ok) {
+        throw new TransportHttpError(
+          response.status,
+          response.statusText,
+          await response.text()
+        );
+      }
+
+      const format = getStreamFormat(response.headers.get("Content-Type"));
+      if (format) {
+        return await readStreamedResponse(response, format, {
+          onProgress,
+          onRows,
+        });
+      }
+
+      const body = await response.text();
+      // Non-JSON bodies are handed on as text for the protocol parser to reject.
+      try {
+        return JSON.parse(body);
+      } catch {
+        return body;
+      }
+    } catch (error) {
+      if (request.timedOut()) {
+        throw new TransportTimeoutError(timeoutMs);
+      }
+      if (request.signal.aborted) {
+        throw new TransportCancelledError();
+      }
+      throw error;
+    } finally {
+      request.release();
+    }
+  };
+
+  const cancel = async () => {
+    const queryIds = Array.from(inFlight.values()).filter(
+      (queryId): queryId is string => queryId !== undefined
+    );
+    inFlight.forEach((_, controller) => controller.abort());
+    inFlight.clear();
+    if (cancelUnsupported.has(profile.id)) return;
+
+    // Best effort: the local abort already stopped waiting for the results.
+    await Promise.all(
+      queryIds.map(async (queryId) => {
+        try {
+          const response = await fetch(buildEndpoint(profile, "cancel"), {
+            method: "POST",
+            headers: buildRequestHeaders(profile),
+            body: JSON.stringify({ queryId }),
+          });
+          if (CANCEL_UNSUPPORTED_STATUSES.includes(response.status)) {
+            cancelUnsupported.add(profile.id);
+          }
+        } catch (error) {
+          console.warn("Error cancelling query on the server:", error);
+        }
+      })
+    );
+  };
+
+  const healthCheck = async (): Promise<HealthStatus> => {
+    const request = track();
+    const startTime = performance.now();
+    try {
+      const response = await fetch(buildEndpoint(profile, "health"), {
+        headers: buildRequestHeaders(profile),
+        signal: request.signal,
+      });
+      return {
+        ok: response.ok,
+        latencyMs: performance.now() - startTime,
+        message: response.ok
+          ? undefined
+          : `Server responded with status ${response.status}`,
+      };
+    } catch (error) {
+      return {
+        ok: false,
+        latencyMs: performance.now() - startTime,
+        message: request.timedOut()
+          ? `No response after ${profile.timeoutMs / 1000}s`
+          : (error as Error).message,
+      };
+    } finally {
+      request.release();
+    }
+  };
+
+  return { execute, cancel, healthCheck };
+}
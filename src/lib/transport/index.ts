@@ -0,0 +1,13 @@
+import { ConnectionProfile } from "@/lib/connections";
+import { createHttpTransport } from "@/lib/transport/http-transport";
+import { createMockTransport } from "@/lib/transport/mock-transport";
+import { QueryTransport } from "@/lib/transport/types";
+
+export * from "@/lib/transport/types";
+export { createHttpTransport } from "@/lib/transport/http-transport";
+export { createMockTransport } from "@/lib/transport/mock-transport";
+
+export const createTransport = (profile: ConnectionProfile): QueryTransport =>
+  profile.kind === "mock"
+    ? createMockTransport({ timeoutMs: profile.timeoutMs })
+    : createHttpTransport(profile);
@@ -0,0 +1,540 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import {
+  AGGREGATES,
+  Condition,
+  JaguraSyntaxError,
+  LIFECYCLE_ACTIONS,
+  LiteralValue,
+  Operand,
+  ParsedStatement,
+  SelectItem,
+  parseStatement,
+} from "@/lib/parser";
+import { Ack, ResultSet } from "@/lib/protocol";
+import { Column, ColumnType } from "@/lib/query-types";
+import { splitStatements } from "@/lib/statements";
+
+// A small in-memory interpreter for the Jagura dialect the UI needs for
+// demos and tests. Statements are parsed by @/lib/parser, the same parser
+// the editor uses for diagnostics; this module only executes them.
+
+export type ContainerState = "created" | "running" | "paused" | "exited";
+
+export interface MockContainer {
+  id: string;
+  name: string;
+  image: string;
+  state: ContainerState;
+  createdAt: string;
+  cpus: number;
+  memoryMb: number;
+  ports: string[];
+}
+
+export type MockErrorCode = "SYNTAX_ERROR" | "EXECUTION_ERROR";
+
+export class MockQueryError extends Error {
+  code: MockErrorCode;
+  position: number; // Offset within the whole script
+  statement?: number; // 1-based, set once the failing statement is known
+
+  constructor(
+    message: string,
+    position: number,
+    code: MockErrorCode = "EXECUTION_ERROR"
+  ) {
+    super(message);
+    this.name = "MockQueryError";
+    this.code = code;
+    this.position = position;
+  }
+}
+
+const likeToRegExp = (pattern: string) =>
+  new RegExp(
+    `^${pattern
+      .replace(/[.+?^${}()|[\]\\]/g, "\\$&")
+      .replace(/%/g, ".*")
+      .replace(/_/g, ".")}$`,
+    "i"
+  );
+
+// NULL has no type of its own
+const literalType = (value: LiteralValue) =>
+  typeof value === "number"
+    ? ColumnType.NUMBER
+    : typeof value === "string"
+      ? ColumnType.STRING
+      : typeof value === "boolean"
+        ? ColumnType.BOOLEAN
+        : ColumnType.UNKNOWN;
+
+const SEED_CONTAINERS: MockContainer[] = [
+  {
+    id: "a1f3c9e2",
+    name: "web",
+    image: "nginx:1.25",
+    state: "running",
+    createdAt: "2024-09-01T08:12:00Z",
+    cpus: 2,
+    memoryMb: 256,
+    ports: ["80/tcp"],
+  },
+  {
+    id: "b7d40a11",
+    name: "db",
+    image: "postgres:16",
+    state: "running",
+    createdAt: "2024-09-01T08:10:00Z",
+    cpus: 4,
+    memoryMb: 2048,
+    ports: ["5432/tcp"],
+  },
+  {
+    id: "c9e81b5f",
+    name: "cache",
+    image: "redis:7",
+    state: "paused",
+    createdAt: "2024-09-02T14:03:00Z",
+    cpus: 1,
+    memoryMb: 512,
+    ports: ["6379/tcp"],
+  },
+  {
+    id: "d2a6f07c",
+    name: "worker",
+    image: "python:3.12",
+    state: "exited",
+    createdAt: "2024-09-03T09:45:00Z",
+    cpus: 1,
+    memoryMb: 1024,
+    ports: [],
+  },
+];
+
+const IMAGE_SIZES_MB: Record<string, number> = {
+  nginx: 187,
+  postgres: 432,
+  redis: 138,
+  python: 1020,
+  alpine: 7.8,
+  ubuntu: 78,
+};
+
+const TABLES: Record<string, Column[]> = {
+  containers: [
+    { name: "name", type: ColumnType.CONTAINER },
+    { name: "image", type: ColumnType.STRING },
+    { name: "state", type: ColumnType.STRING },
+    { name: "running", type: ColumnType.BOOLEAN },
+    { name: "cpus", type: ColumnType.INT },
+    { name: "memory_mb", type: ColumnType.NUMBER },
+  ],
+  images: [
+    { name: "repository", type: ColumnType.STRING },
+    { name: "tag", type: ColumnType.STRING },
+    { name: "size_mb", type: ColumnType.NUMBER },
+  ],
+};
+
+const fakeCommandOutput = (container: MockContainer, command: string) => {
+  const [program, ...args] = command.trim().split(/\s+/);
+  switch (program) {
+    case "echo":
+      return args.join(" ");
+    case "hostname":
+      return container.id;
+    case "ls":
+      return ["bin", "etc", "home", "lib", "tmp", "usr", "var"].join("\n");
+    case "ps":
+      return [
+        "PID   USER     COMMAND",
+        `1     root     ${container.image.split(":")[0]}`,
+        `42    root     ${command}`,
+      ].join("\n");
+    case "uptime":
+      return " 10:24:01 up 3 days,  2:11,  0 users,  load average: 0.08, 0.03, 0.01";
+    default:
+      return `sh: ${program}: executed with exit code 0`;
+  }
+};
+
+export interface MockEngineOptions {
+  containers?: MockContainer[];
+}
+
+export function createMockEngine({
+  containers = SEED_CONTAINERS,
+}: MockEngineOptions = {}) {
+  const registry = new Map<string, MockContainer>(
+    containers.map((container) => [container.name, { ...container }])
+  );
+  let nextId = 1;
+
+  const getContainer = (name: string, position: number) => {
+    const container = registry.get(name);
+    if (!container) {
+      throw new MockQueryError(`No such container '${name}'`, position);
+    }
+    return container;
+  };
+
+  // Applies a lifecycle action and returns the resulting state, or throws
+  // when the transition is not allowed from the current state.
+  const applyAction = (action: string, name: string, position: number) => {
+    const container = getContainer(name, position);
+    const reject = (reason: string): never => {
+      throw new MockQueryError(
+        `Cannot ${action.toLowerCase()} container '${name}': ${reason}`,
+        position
+      );
+    };
+
+    switch (action) {
+      case "START":
+        if (container.state === "running") reject("already running");
+        if (container.state === "paused")
+          reject("container is paused, use UNPAUSE");
+        container.state = "running";
+        break;
+      case "STOP":
+      case "KILL":
+        if (container.state !== "running" && container.state !== "paused") {
+          reject("not running");
+        }
+        container.state = "exited";
+        break;
+      case "PAUSE":
+        if (container.state !== "running") reject("not running");
+        container.state = "paused";
+        break;
+      case "UNPAUSE":
+        if (container.state !== "paused") reject("not paused");
+        container.state = "running";
+        break;
+      case "RESTART":
+        container.state = "running";
+        break;
+      case "REMOVE":
+        if (container.state === "running" || container.state === "paused") {
+          reject("stop the container first");
+        }
+        registry.delete(name);
+        return "removed";
+    }
+    return container.state;
+  };
+
+  const tableRows = (table: string): Record<string, any>[] => {
+    if (table === "containers") {
+      return Array.from(registry.values()).map((container) => ({
+        name: container.name,
+        image: container.image,
+        state: container.state,
+        running: container.state === "running",
+        cpus: container.cpus,
+        memory_mb: container.memoryMb,
+      }));
+    }
+
+    const images = new Set(Array.from(registry.values()).map((c) => c.image));
+    return Array.from(images).map((image) => {
+      const [repository, tag = "latest"] = image.split(":");
+      return {
+        repository,
+        tag,
+        size_mb: IMAGE_SIZES_MB[repository] ?? 100,
+      };
+    });
+  };
+
+  const runSelect = ({
+    items,
+    table: tableRef,
+    where: condition,
+    limit,
+  }: Extract<ParsedStatement, { kind: "select" }>): ResultSet => {
+    const table = tableRef.name.toLowerCase();
+    const schema = TABLES[table];
+    if (!schema) {
+      throw new MockQueryError(
+        `No such table '${tableRef.name}'`,
+        tableRef.position
+      );
+    }
+
+    const columnType = (name: string, position: number) => {
+      const column = schema.find((c) => c.name === name.toLowerCase());
+      if (!column) {
+        throw new MockQueryError(
+          `No such column '${name}' in ${table}`,
+          position
+        );
+      }
+      return column;
+    };
+
+    const evaluate = (operand: Operand, row: Record<string, any>) =>
+      operand.kind === "literal"
+        ? operand.value
+        : row[columnType(operand.name, operand.position).name];
+
+    const matches = (cond: Condition, row: Record<string, any>): boolean => {
+      switch (cond.kind) {
+        case "and":
+          return cond.items.every((item) => matches(item, row));
+        case "or":
+          return cond.items.some((item) => matches(item, row));
+        case "not":
+          return !matches(cond.item, row);
+        case "isNull":
+          return (evaluate(cond.operand, row) == null) !== cond.negated;
+        case "like":
+          return (
+            likeToRegExp(String(evaluate(cond.pattern, row))).test(
+              String(evaluate(cond.operand, row))
+            ) !== cond.negated
+          );
+        case "in": {
+          const value = evaluate(cond.operand, row);
+          return (
+            cond.values.some((v) => evaluate(v, row) === value) !== cond.negated
+          );
+        }
+        case "compare": {
+          const left = evaluate(cond.left, row);
+          const right = evaluate(cond.right, row);
+          switch (cond.op) {
+            case "=":
+              return left === right;
+            case "!=":
+            case "<>":
+              return left !== right;
+            case "<":
+              return left < right;
+            case ">":
+              return left > right;
+            case "<=":
+              return left <= right;
+            default:
+              return left >= right;
+          }
+        }
+      }
+    };
+
+    const rows = tableRows(table)
+      .filter((row) => !condition || matches(condition, row))
+      .slice(0, limit ?? Infinity);
+
+    const isAggregate = (item: SelectItem) =>
+      item.kind === "call" && AGGREGATES.includes(item.fn);
+    const aggregateCount = items.filter(isAggregate).length;
+    if (aggregateCount > 0 && aggregateCount < items.length) {
+      throw new MockQueryError("Cannot mix aggregates with other columns", 0);
+    }
+
+    const columns: Column[] = [];
+    const producers: ((row: Record<string, any>) => any)[] = [];
+
+    items.forEach((item) => {
+      if (item.kind === "star") {
+        schema.forEach((column) => {
+          columns.push(column);
+          producers.push((row) => row[column.name]);
+        });
+        return;
+      }
+
+      if (item.kind === "column") {
+        const column = columnType(item.name, item.position);
+        columns.push({ name: item.alias ?? column.name, type: column.type });
+        producers.push((row) => row[column.name]);
+        return;
+      }
+
+      if (item.kind === "literal") {
+        columns.push({
+          name: item.alias ?? item.label,
+          type: literalType(item.value),
+        });
+        producers.push(() => item.value);
+        return;
+      }
+
+      const [first, second] = item.args;
+      const argValue = (row: Record<string, any>) => {
+        if (!first || first.kind === "star") {
+          throw new MockQueryError(
+            `${item.fn} expects a column argument`,
+            item.position
+          );
+        }
+        return evaluate(first, row);
+      };
+      const name = item.alias ?? item.label;
+
+      if (item.fn === "METADATA") {
+        columns.push({ name, type: ColumnType.METADATA });
+        producers.push((row) => {
+          const container = getContainer(argValue(row), item.position);
+          return {
+            id: container.id,
+            image: container.image,
+            state: container.state,
+            created: container.createdAt,
+            resources: { cpus: container.cpus, memoryMb: container.memoryMb },
+            ports: container.ports,
+          };
+        });
+      } else if (item.fn === "RUN_CMD") {
+        if (!second || second.kind !== "literal") {
+          throw new MockQueryError(
+            "run_cmd expects a command string",
+            item.position
+          );
+        }
+        columns.push({ name, type: ColumnType.RUN_CMD });
+        producers.push((row) => {
+          const container = getContainer(argValue(row), item.position);
+          return container.state === "running"
+            ? fakeCommandOutput(container, String(second.value))
+            : `Error: container ${container.name} is not running`;
+        });
+      } else if (item.fn === "LENGTH") {
+        columns.push({ name, type: ColumnType.LENGTH });
+        producers.push((row) => String(argValue(row) ?? "").length);
+      } else if (LIFECYCLE_ACTIONS.includes(item.fn)) {
+        columns.push({ name, type: item.fn as ColumnType });
+        producers.push((row) => {
+          try {
+            return applyAction(item.fn, argValue(row), item.position);
+          } catch (error) {
+            return (error as Error).message;
+          }
+        });
+      } else {
+        columns.push({ name, type: item.fn as ColumnType });
+      }
+    });
+
+    if (aggregateCount > 0) {
+      const aggregateRow = items.map((item) => {
+        if (item.kind !== "call") return null;
+        const [first] = item.args;
+        if (item.fn === "COUNT") {
+          return !first || first.kind === "star"
+            ? rows.length
+            : rows.filter((row) => evaluate(first, row) != null).length;
+        }
+        if (!first || first.kind === "star") {
+          throw new MockQueryError(
+            "SUM expects a column argument",
+            item.position
+          );
+        }
+        return rows.reduce(
+          (sum, row) => sum + (Number(evaluate(first, row)) || 0),
+          0
+        );
+      });
+      return { kind: "resultSet", columns, rows: [aggregateRow] };
+    }
+
+    return {
+      kind: "resultSet",
+      columns,
+      rows: rows.map((row) => producers.map((produce) => produce(row))),
+    };
+  };
+
+  const runStatement = (statement: ParsedStatement): ResultSet | Ack => {
+    switch (statement.kind) {
+      case "show":
+        return statement.target === "tables"
+          ? {
+              kind: "resultSet",
+              columns: [{ name: "table", type: ColumnType.STRING }],
+              rows: Object.keys(TABLES).map((table) => [table]),
+            }
+          : runSelect({
+              kind: "select",
+              items: [{ kind: "star" }],
+              table: { name: "containers", position: 0 },
+              where: null,
+              limit: null,
+            });
+      case "select":
+        return runSelect(statement);
+      case "launch": {
+        const { name, position } = statement.container;
+        if (registry.has(name)) {
+          throw new MockQueryError(
+            `Container '${name}' already exists`,
+            position
+          );
+        }
+        const image = statement.image.includes(":")
+          ? statement.image
+          : `${statement.image}:latest`;
+        registry.set(name, {
+          id: `e${(nextId++).toString(16).padStart(7, "0")}`,
+          name,
+          image,
+          state: "created",
+          createdAt: new Date().toISOString(),
+          cpus: 1,
+          memoryMb: 512,
+          ports: [],
+        });
+        return {
+          kind: "ack",
+          message: `Container ${name} created from ${image}`,
+          affected: 1,
+        };
+      }
+      case "lifecycle": {
+        const { name, position } = statement.container;
+        const state = applyAction(statement.action, name, position);
+        return {
+          kind: "ack",
+          message: `Container ${name} is now ${state}`,
+          affected: 1,
+        };
+      }
+    }
+  };
+
+  // Runs every statement of the script and returns the result of the last
+  // one, matching what the backend does with a ';'-joined script.
+  const execute = (script: string): ResultSet | Ack => {
+    const statements = splitStatements(script);
+    if (statements.length === 0) {
+      throw new MockQueryError("Empty query", 0, "SYNTAX_ERROR");
+    }
+
+    let result: ResultSet | Ack | null = null;
+    statements.forEach((statement, index) => {
+      try {
+        result = runStatement(parseStatement(statement.text, statement.start));
+      } catch (error) {
+        const queryError =
+          error instanceof JaguraSyntaxError
+            ? new MockQueryError(error.message, error.position, "SYNTAX_ERROR")
+            : error;
+        if (queryError instanceof MockQueryError) {
+          queryError.statement = index + 1;
+        }
+        throw queryError;
+      }
+    });
+    return result!;
+  };
+
+  return {
+    execute,
+    listContainers: () => Array.from(registry.values()).map((c) => ({ ...c })),
+  };
+}
+
+export type MockEngine = ReturnType<typeof createMockEngine>;
@@ -0,0 +1,118 @@
+import { describe, expect, it, vi } from "vitest";
+import { createMockEngine } from "@/lib/transport/mock-engine";
+import { createMockTransport } from "@/lib/transport/mock-transport";
+import {
+  TransportCancelledError,
+  TransportTimeoutError,
+} from "@/lib/transport/types";
+
+// A transport with no latency over its own engine, so tests neither wait
+// nor share containers
+const mockTransport = (streaming = false) =>
+  createMockTransport({ engine: createMockEngine(), latencyMs: 0, streaming });
+
+describe("createMockTransport", () => {
+  it("answers a SELECT with a result envelope", async () => {
+    const response = await mockTransport().execute({
+      query: "SELECT name FROM containers WHERE name = 'web'",
+    });
+    expect(response).toEqual({
+      result: [[{ name: "name", type: "container" }], ["web"]],
+    });
+  });
+
+  it("types literal columns by their value", async () => {
+    const response = await mockTransport().execute({
+      query: "SELECT 1, 'a', TRUE, NULL FROM containers LIMIT 1",
+    });
+    expect(response).toEqual({
+      result: [
+        [
+          { name: "1", type: "number" },
+          { name: "'a'", type: "string" },
+          { name: "TRUE", type: "boolean" },
+          { name: "NULL", type: "unknown" },
+        ],
+        [1, "a", true, null],
+      ],
+    });
+  });
+
+  it("answers a lifecycle statement with an ack", async () => {
+    const transport = mockTransport();
+    await expect(
+      transport.execute({ query: "STOP CONTAINER web" })
+    ).resolves.toEqual({
+      ack: { message: "Container web is now exited", affected: 1 },
+    });
+  });
+
+  it("reports where a statement failed", async () => {
+    const response = await mockTransport().execute({
+      query: "SHOW TABLES;\nSELECT name FROM nowhere",
+    });
+    expect(response).toMatchObject({
+      error: { statement: 2, line: 2 },
+    });
+  });
+
+  it("streams progress and rows when asked to", async () => {
+    const onProgress = vi.fn();
+    const onRows = vi.fn();
+    await mockTransport(true).execute({
+      query: "SELECT name FROM containers LIMIT 2",
+      onProgress,
+      onRows,
+    });
+    expect(onProgress).toHaveBeenCalled();
+    expect(onRows.mock.calls.map(([chunk]) => chunk.rows)).toEqual([
+      [],
+      [["web"]],
+      [["db"]],
+    ]);
+  });
+
+  it("rejects a request whose signal is already aborted", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(
+      mockTransport().execute({
+        query: "SHOW TABLES",
+        signal: controller.signal,
+      })
+    ).rejects.toBeInstanceOf(TransportCancelledError);
+  });
+
+  it("times out a request that takes longer than its timeout", async () => {
+    const transport = createMockTransport({
+      engine: createMockEngine(),
+      latencyMs: 1000,
+      streaming: false,
+    });
+    await expect(
+      transport.execute({ query: "SHOW TABLES", timeoutMs: 10 })
+    ).rejects.toBeInstanceOf(TransportTimeoutError);
+  });
+
+  it("falls back to its own timeout when the request sets none", async () => {
+    const transport = createMockTransport({
+      engine: createMockEngine(),
+      latencyMs: 1000,
+      timeoutMs: 10,
+    });
+    await expect(transport.execute({ query: "SHOW TABLES" })).rejects.toThrow(
+      "Query timed out after 0.01s."
+    );
+  });
+
+  it("does not time out with a timeout of 0", async () => {
+    const transport = createMockTransport({
+      engine: createMockEngine(),
+      latencyMs: 20,
+      timeoutMs: 10,
+    });
+    await expect(
+      transport.execute({ query: "SHOW TABLES", timeoutMs: 0 })
+    ).resolves.toHaveProperty("result");
+  });
+});
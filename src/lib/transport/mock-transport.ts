@@ -0,0 +1,185 @@
+import {
+  MockEngine,
+  MockQueryError,
+  createMockEngine,
+} from "@/lib/transport/mock-engine";
+import { QueryProgress } from "@/lib/protocol";
+import {
+  HealthStatus,
+  QueryRequest,
+  QueryTransport,
+  RawQueryResponse,
+  TransportCancelledError,
+  TransportTimeoutError,
+} from "@/lib/transport/types";
+
+// Shared so every mock connection sees the same fake containers.
+const sharedEngine = createMockEngine();
+
+export interface MockTransportOptions {
+  engine?: MockEngine;
+  latencyMs?: number; // Simulated round trip; 0 for tests
+  streaming?: boolean; // Report progress and send rows in chunks
+  timeoutMs?: number; // For requests that set none; 0 waits indefinitely
+}
+
+// The mock tables are small, so rows trickle in one at a time to make the
+// streaming visible.
+const ROWS_PER_CHUNK = 1;
+
+// Phases a real backend would report for the statement, in order.
+const phasesFor = (query: string): QueryProgress[] => {
+  const action = query.trim().split(/\s+/)[0].toUpperCase();
+  const image = /FROM\s+'([^']*)'/i.exec(query)?.[1];
+  const phases: QueryProgress[] = [{ phase: "parsing", message: "Parsing" }];
+
+  if (action === "LAUNCH") {
+    phases.push(
+      { phase: "pulling_image", message: `Pulling image ${image ?? ""}` },
+      { phase: "creating_container", message: "Creating container" }
+    );
+  } else if (["START", "RESTART", "UNPAUSE"].includes(action)) {
+    phases.push({ phase: "starting_container", message: "Starting container" });
+  } else if (["STOP", "KILL", "PAUSE", "REMOVE"].includes(action)) {
+    phases.push({ phase: "stopping_container", message: "Stopping container" });
+  } else {
+    if (/\brun_cmd\s*\(/i.test(query)) {
+      phases.push({ phase: "running_command", message: "Running command" });
+    }
+    phases.push({ phase: "fetching_results", message: "Fetching results" });
+  }
+
+  return phases.map((progress, index) => ({
+    ...progress,
+    percent: Math.round((index / phases.length) * 100),
+  }));
+};
+
+export function createMockTransport({
+  engine = sharedEngine,
+  latencyMs = 300,
+  streaming = true,
+  timeoutMs: defaultTimeoutMs = 0,
+}: MockTransportOptions = {}): QueryTransport {
+  const inFlight = new Set<() => void>();
+
+  const delay = (ms: number, signal?: AbortSignal) =>
+    new Promise<void>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new TransportCancelledError());
+        return;
+      }
+      const abort = () => {
+        clearTimeout(timeoutId);
+        inFlight.delete(abort);
+        reject(new TransportCancelledError());
+      };
+      const timeoutId = setTimeout(() => {
+        inFlight.delete(abort);
+        signal?.removeEventListener("abort", abort);
+        resolve();
+      }, ms);
+      inFlight.add(abort);
+      signal?.addEventListener("abort", abort, { once: true });
+    });
+
+  // Runs the query against the engine with the simulated latency, giving up
+  // with a TransportCancelledError once `signal` aborts.
+  const respond = async ({
+    query,
+    signal,
+    onProgress,
+    onRows,
+  }: QueryRequest): Promise<RawQueryResponse> => {
+    if (streaming && onProgress) {
+      const phases = phasesFor(query);
+      for (const progress of phases) {
+        onProgress(progress);
+        await delay(latencyMs / phases.length, signal);
+      }
+    } else {
+      await delay(latencyMs, signal);
+    }
+    try {
+      const response = engine.execute(query);
+      if (streaming && onRows && response.kind !== "ack") {
+        onRows({ columns: response.columns, rows: [] });
+        for (let i = 0; i < response.rows.length; i += ROWS_PER_CHUNK) {
+          await delay(latencyMs / 4, signal);
+          onRows({ rows: response.rows.slice(i, i + ROWS_PER_CHUNK) });
+        }
+      }
+      if (response.kind === "ack") {
+        return {
+          ack: { message: response.message, affected: response.affected },
+        };
+      }
+      return {
+        result: [
+          response.columns.map((column) => ({
+            name: column.name,
+            type: column.type.toLowerCase(),
+          })),
+          ...response.rows,
+        ],
+      };
+    } catch (error) {
+      if (error instanceof MockQueryError) {
+        const before = query.slice(0, error.position).split("\n");
+        return {
+          error: {
+            code: error.code,
+            message: error.message,
+            statement: error.statement,
+            line: before.length,
+            column: before[before.length - 1].length + 1,
+            offset: error.position,
+          },
+        };
+      }
+      throw error;
+    }
+  };
+
+  // Ties the caller's signal and the timeout to a single controller, like
+  // the HTTP transport does.
+  const execute = async ({
+    signal,
+    timeoutMs = defaultTimeoutMs,
+    ...request
+  }: QueryRequest): Promise<RawQueryResponse> => {
+    const controller = new AbortController();
+    let timedOut = false;
+    const timeoutId =
+      timeoutMs > 0
+        ? setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+          }, timeoutMs)
+        : undefined;
+    const onAbort = () => controller.abort();
+    if (signal?.aborted) controller.abort();
+    signal?.addEventListener("abort", onAbort);
+    try {
+      return await respond({ ...request, signal: controller.signal });
+    } catch (error) {
+      if (timedOut) throw new TransportTimeoutError(timeoutMs);
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener("abort", onAbort);
+    }
+  };
+
+  const cancel = async () => {
+    inFlight.forEach((abort) => abort());
+  };
+
+  const healthCheck = async (): Promise<HealthStatus> => ({
+    ok: true,
+    latencyMs: 0,
+    message: "In-browser mock engine",
+  });
+
+  return { execute, cancel, healthCheck };
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it, vi } from "vitest";
+import { getStreamFormat, readStreamedResponse } from "@/lib/transport/stream";
+
+// A response whose body arrives in the given pieces, which need not line up
+// with record boundaries
+const streamedResponse = (pieces: string[]) => {
+  const encoder = new TextEncoder();
+  return new Response(
+    new ReadableStream({
+      start(controller) {
+        pieces.forEach((piece) => controller.enqueue(encoder.encode(piece)));
+        controller.close();
+      },
+    })
+  );
+};
+
+describe("getStreamFormat", () => {
+  it("recognises NDJSON and SSE content types", () => {
+    expect(getStreamFormat("application/x-ndjson; charset=utf-8")).toBe(
+      "ndjson"
+    );
+    expect(getStreamFormat("text/event-stream")).toBe("sse");
+    expect(getStreamFormat("application/json")).toBeNull();
+    expect(getStreamFormat(null)).toBeNull();
+  });
+});
+
+describe("readStreamedResponse", () => {
+  it("reports NDJSON progress and returns the final envelope", async () => {
+    const onProgress = vi.fn();
+    const response = streamedResponse([
+      '{"progress":{"phase":"pulling_image","percent":40}}\n{"pro',
+      'gress":{"phase":"starting_container"}}\n',
+      '{"ack":{"message":"Launched"}}',
+    ]);
+    await expect(
+      readStreamedResponse(response, "ndjson", { onProgress })
+    ).resolves.toEqual({ ack: { message: "Launched" } });
+    expect(onProgress.mock.calls).toEqual([
+      [{ phase: "pulling_image", message: undefined, percent: 40 }],
+      [{ phase: "starting_container", message: undefined, percent: undefined }],
+    ]);
+  });
+
+  it("assembles a result from chunks when no envelope follows", async () => {
+    const onRows = vi.fn();
+    const response = streamedResponse([
+      '{"columns":[{"name":"name","type":"CONTAINER"}],"rows":[["web"]]}\n',
+      '\n{"rows":[["db"],["cache"]]}\n',
+    ]);
+    await expect(
+      readStreamedResponse(response, "ndjson", { onRows })
+    ).resolves.toEqual({
+      result: [
+        [{ name: "name", type: "CONTAINER" }],
+        ["web"],
+        ["db"],
+        ["cache"],
+      ],
+    });
+    expect(onRows).toHaveBeenCalledTimes(2);
+  });
+
+  it("lets an error envelope after chunks fail the query", async () => {
+    const response = streamedResponse([
+      '{"columns":["name"],"rows":[["web"]]}\n',
+      '{"error":{"message":"Connection lost"}}\n',
+    ]);
+    await expect(readStreamedResponse(response, "ndjson")).resolves.toEqual({
+      error: { message: "Connection lost" },
+    });
+  });
+
+  it("joins the data lines of SSE events and skips other fields", async () => {
+    const onProgress = vi.fn();
+    const response = streamedResponse([
+      ': keep-alive\n\nevent: progress\ndata: {"progress":',
+      '{"phase":"running"}}\n\nid: 2\r\ndata: {"result":\r\ndata: [["n"],',
+      '["web"]]}\r\n\r\n',
+    ]);
+    await expect(
+      readStreamedResponse(response, "sse", { onProgress })
+    ).resolves.toEqual({ result: [["n"], ["web"]] });
+    expect(onProgress).toHaveBeenCalledOnce();
+  });
+
+  it("returns a payload that is not JSON as text", async () => {
+    const response = streamedResponse(["not json\n"]);
+    await expect(readStreamedResponse(response, "ndjson")).resolves.toBe(
+      "not json"
+    );
+  });
+});
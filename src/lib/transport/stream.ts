@@ -0,0 +1,97 @@
+import { Column } from "@/lib/query-types";
+import { parseProgressEvent, parseResultChunk } from "@/lib/protocol";
+import { QueryRequest, RawQueryResponse } from "@/lib/transport/types";
+
+export type StreamFormat = "ndjson" | "sse";
+
+export const STREAM_ACCEPT_HEADER =
+  "application/x-ndjson, text/event-stream;q=0.9, application/json;q=0.8";
+
+export const getStreamFormat = (
+  contentType: string | null
+): StreamFormat | null => {
+  if (contentType?.includes("application/x-ndjson")) return "ndjson";
+  if (contentType?.includes("text/event-stream")) return "sse";
+  return null;
+};
+
+const parsePayload = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text; // Rejected by the protocol parser if it is the last one
+  }
+};
+
+// Splits a buffer into complete records, keeping the unfinished tail.
+const takeRecords = (buffer: string, separator: RegExp) => {
+  const parts = buffer.split(separator);
+  return { records: parts.slice(0, -1), rest: parts[parts.length - 1] };
+};
+
+// NDJSON records are lines; SSE records are events whose "data:" lines
+// together hold one payload. Comments and other SSE fields are ignored.
+const recordPayload = (record: string, format: StreamFormat) => {
+  if (format === "ndjson") return record.trim() || null;
+  const data = record
+    .split(/\r?\n/)
+    .filter((line) => line.startsWith("data:"))
+    .map((line) => line.slice(5).replace(/^ /, ""));
+  return data.length > 0 ? data.join("\n") : null;
+};
+
+// Reads a streamed response to the end, reporting progress events and
+// result chunks as they arrive. Returns the last payload that was neither,
+// or the result assembled from the chunks when the server sent no envelope.
+export const readStreamedResponse = async (
+  response: Response,
+  format: StreamFormat,
+  { onProgress, onRows }: Pick<QueryRequest, "onProgress" | "onRows"> = {}
+): Promise<RawQueryResponse> => {
+  const separator = format === "ndjson" ? /\r?\n/ : /\r?\n\r?\n/;
+  let final: RawQueryResponse = undefined;
+  let columns: Column[] | null = null;
+  const rows: unknown[][] = [];
+
+  const handle = (record: string) => {
+    const text = recordPayload(record, format);
+    if (text === null) return;
+    const payload = parsePayload(text);
+    const progress = parseProgressEvent(payload);
+    const chunk = progress ? null : parseResultChunk(payload);
+    if (progress) {
+      onProgress?.(progress);
+    } else if (chunk) {
+      columns = chunk.columns ?? columns;
+      chunk.rows.forEach((row) => rows.push(row));
+      onRows?.(chunk);
+    } else {
+      final = payload;
+    }
+  };
+
+  const result = () =>
+    final === undefined && columns ? { result: [columns, ...rows] } : final;
+
+  if (!response.body) {
+    takeRecords(`${await response.text()}\n\n`, separator).records.forEach(
+      handle
+    );
+    return result();
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+    const { records, rest } = takeRecords(
+      done ? `${buffer}\n\n` : buffer,
+      separator
+    );
+    records.forEach(handle);
+    buffer = rest;
+    if (done) return result();
+  }
+};
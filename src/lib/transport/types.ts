@@ -0,0 +1,70 @@
+import type { QueryProgress, ResultChunk } from "@/lib/protocol";
+
+// Payload exactly as the backend sent it; see parseQueryResponse in
+// @/lib/protocol for the envelopes it may contain.
+export type RawQueryResponse = unknown;
+
+export interface QueryRequest {
+  query: string;
+  signal?: AbortSignal;
+  timeoutMs?: number; // Overrides the profile timeout; 0 waits indefinitely
+  // Called for each progress event of a streamed response. Transports whose
+  // server does not stream never call it.
+  onProgress?: (progress: QueryProgress) => void;
+  // Called for each chunk of a result set as it arrives, so rows can be shown
+  // before the last one. The resolved response still holds the whole result.
+  onRows?: (chunk: ResultChunk) => void;
+}
+
+export interface HealthStatus {
+  ok: boolean;
+  latencyMs: number;
+  message?: string;
+}
+
+export interface QueryTransport {
+  execute(request: QueryRequest): Promise<RawQueryResponse>;
+  // Aborts every request this transport still has in flight and, where the
+  // backend supports it, asks the server to stop executing them.
+  cancel(): Promise<void>;
+  healthCheck(): Promise<HealthStatus>;
+}
+
+export class TransportTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Query timed out after ${timeoutMs / 1000}s.`);
+    this.name = "TransportTimeoutError";
+  }
+}
+
+// Thrown by execute when the request was aborted through its signal or
+// cancel(), as opposed to timing out.
+export class TransportCancelledError extends Error {
+  constructor() {
+    super("Query cancelled.");
+    this.name = "TransportCancelledError";
+  }
+}
+
+export class TransportHttpError extends Error {
+  status: number;
+  body: string;
+
+  constructor(status: number, statusText: string, body: string) {
+    super(
+      `Server responded with status ${status}${statusText ? ` ${statusText}` : ""}`
+    );
+    this.name = "TransportHttpError";
+    this.status = status;
+    this.body = body;
+  }
+}
+
+export class TransportNetworkError extends Error {
+  constructor(url: string, cause: unknown) {
+    super(
+      `Could not reach ${url}: ${cause instanceof Error ? cause.message : String(cause)}`
+    );
+    this.name = "TransportNetworkError";
+  }
+}
@@ -0,0 +1,45 @@
+import {
+  JaguraSyntaxError,
+  changesContainers,
+  parseStatement,
+} from "@/lib/parser";
+import { splitStatements } from "@/lib/statements";
+import { StatementResult } from "@/lib/workspace";
+
+// Seconds between runs offered in the watch menu
+export const WATCH_INTERVALS = [2, 5, 10, 30, 60];
+
+// Failed runs in a row after which watching stops
+export const MAX_WATCH_FAILURES = 3;
+
+// Re-running a tab's query on an interval. `previous` holds the results of
+// the run before the latest, to show what changed.
+export interface WatchState {
+  intervalSeconds: number;
+  failures: number; // Failed runs in a row
+  stopped: string | null; // Why watching ended on its own, if it did
+  previous: StatementResult[] | null;
+}
+
+// Why `script` cannot be watched, or null when it can. Only statements that
+// read are re-run, as repeating LAUNCH or a lifecycle action would keep
+// changing containers.
+export const watchBlocker = (script: string): string | null => {
+  const statements = splitStatements(script);
+  if (statements.length === 0) return "There is no query to watch.";
+  for (const statement of statements) {
+    let parsed;
+    try {
+      parsed = parseStatement(statement.text);
+    } catch (error) {
+      if (error instanceof JaguraSyntaxError) {
+        return "Fix the syntax errors before watching the query.";
+      }
+      throw error;
+    }
+    if (changesContainers(parsed)) {
+      return "Only queries that read can be watched; this one changes containers.";
+    }
+  }
+  return null;
+};
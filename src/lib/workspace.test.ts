@@ -0,0 +1,138 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { DEFAULT_GRID_VIEW } from "@/lib/grid-view";
+import {
+  DEFAULT_SETTINGS,
+  StatementResult,
+  Tab,
+  WORKSPACE_SCHEMA_VERSION,
+  createTab,
+  loadWorkspace,
+  saveWorkspace,
+} from "@/lib/workspace";
+
+const STORAGE_KEY = "jagura.workspace";
+
+// Just enough of localStorage for the workspace to round-trip
+const createStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+  };
+};
+
+const store = (workspace: unknown) =>
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(workspace));
+
+const stored = () => JSON.parse(localStorage.getItem(STORAGE_KEY)!);
+
+const ack: StatementResult = {
+  statement: "STOP CONTAINER web",
+  response: { kind: "ack", affected: 1 },
+  executionTime: 12,
+};
+
+beforeEach(() => {
+  vi.stubGlobal("localStorage", createStorage());
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("loadWorkspace", () => {
+  it("returns null when nothing was saved", () => {
+    expect(loadWorkspace("local")).toBeNull();
+  });
+
+  it("keeps valid results and drops malformed ones", () => {
+    store({
+      version: WORKSPACE_SCHEMA_VERSION,
+      activeTab: "1",
+      tabs: [
+        {
+          id: "1",
+          name: "Stop",
+          content: ack.statement,
+          connectionId: "local",
+          results: [
+            ack,
+            { ...ack, executionTime: "12" },
+            { ...ack, statement: null },
+            { ...ack, response: { kind: "ack", affected: "1" } },
+            {
+              ...ack,
+              response: { kind: "resultSet", columns: [{}], rows: [] },
+            },
+            { ...ack, response: { kind: "error", message: "No code" } },
+            null,
+          ],
+          activeResultIndex: 3,
+        },
+      ],
+    });
+    const tab = loadWorkspace("local")!.tabs[0];
+    expect(tab.results).toEqual([ack]);
+    expect(tab.activeResultIndex).toBe(0);
+  });
+
+  it("fills in missing or malformed tab fields", () => {
+    store({
+      version: WORKSPACE_SCHEMA_VERSION,
+      tabs: [{ id: "1", name: 42, content: null, results: "none" }],
+    });
+    expect(loadWorkspace("mock")).toEqual({
+      tabs: [createTab("mock", "1")],
+      activeTab: "1",
+      settings: DEFAULT_SETTINGS,
+    });
+  });
+
+  it("moves a version 1 tab's grid view to its first result", () => {
+    const gridView = { ...DEFAULT_GRID_VIEW, search: "web" };
+    store({ version: 1, tabs: [{ id: "1", gridView }] });
+    const tab = loadWorkspace("local")!.tabs[0];
+    expect(tab.gridViews).toEqual([gridView]);
+    expect(tab).not.toHaveProperty("gridView");
+  });
+
+  it("ignores a workspace saved by a newer version", () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    store({ version: WORKSPACE_SCHEMA_VERSION + 1, tabs: [{ id: "1" }] });
+    expect(loadWorkspace("local")).toBeNull();
+  });
+});
+
+describe("saveWorkspace", () => {
+  it("leaves out results that are still streaming", () => {
+    const tab: Tab = {
+      ...createTab("local", "1"),
+      results: [
+        ack,
+        {
+          statement: "SELECT name FROM containers",
+          response: { kind: "resultSet", columns: [], rows: [] },
+          executionTime: 5,
+          streaming: true,
+        },
+      ],
+      activeResultIndex: 1,
+    };
+    saveWorkspace({ tabs: [tab], activeTab: "1", settings: DEFAULT_SETTINGS });
+    expect(stored().tabs[0]).toMatchObject({
+      results: [ack],
+      activeResultIndex: 0,
+    });
+  });
+
+  it("saves no results when persisting them is off", () => {
+    const tab = { ...createTab("local", "1"), results: [ack] };
+    saveWorkspace({
+      tabs: [tab],
+      activeTab: "1",
+      settings: { ...DEFAULT_SETTINGS, persistResults: false },
+    });
+    expect(stored().tabs[0].results).toEqual([]);
+    expect(loadWorkspace("local")!.tabs[0].content).toBe("");
+  });
+});
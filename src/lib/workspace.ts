@@ -0,0 +1,245 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { GridViewState, normalizeGridView } from "@/lib/grid-view";
+import { QueryResponse, isQueryResponse } from "@/lib/protocol";
+import { QueryResult } from "@/lib/query-types";
+
+export interface StatementResult {
+  statement: string;
+  response: QueryResponse;
+  executionTime: number;
+  streaming?: boolean; // Rows are still arriving; never saved
+}
+
+// A result kept aside to diff later runs against
+export interface ResultSnapshot {
+  statement: string;
+  result: QueryResult;
+  takenAt: string; // ISO timestamp
+}
+
+export interface Tab {
+  id: string;
+  name: string;
+  content: string;
+  connectionId: string;
+  results: StatementResult[];
+  activeResultIndex: number;
+  skippedStatements: number; // Left unexecuted after a stop-on-error
+  gridViews: GridViewState[]; // Sort, column layout and scroll, by result
+  snapshot: ResultSnapshot | null;
+}
+
+export interface WorkspaceSettings {
+  stopOnError: boolean;
+  persistResults: boolean;
+  timeoutSeconds: number | null; // null uses the connection's timeout, 0 none
+}
+
+export interface Workspace {
+  tabs: Tab[];
+  activeTab: string;
+  settings: WorkspaceSettings;
+}
+
+const STORAGE_KEY = "jagura.workspace";
+
+// Bump when a persisted field is renamed, removed or changes meaning, and
+// add a migration from the previous version below. Added fields need
+// neither: normalizeTab and DEFAULT_SETTINGS fill them in when missing.
+export const WORKSPACE_SCHEMA_VERSION = 2;
+
+// Each entry upgrades a persisted workspace from version `key` to `key + 1`.
+const MIGRATIONS: Record<number, (workspace: any) => any> = {
+  // A tab's single grid view becomes the view of its first result
+  1: (workspace) => ({
+    ...workspace,
+    tabs: Array.isArray(workspace.tabs)
+      ? workspace.tabs.map((tab: any) => {
+          if (typeof tab !== "object" || tab === null) return tab;
+          const { gridView, ...rest } = tab;
+          return { ...rest, gridViews: gridView ? [gridView] : [] };
+        })
+      : workspace.tabs,
+  }),
+};
+
+// Results are dropped from the saved workspace beyond this size so a single
+// large SELECT cannot exhaust the storage quota.
+const MAX_PERSISTED_RESULTS_LENGTH = 2_000_000;
+
+export const DEFAULT_SETTINGS: WorkspaceSettings = {
+  stopOnError: true,
+  persistResults: true,
+  timeoutSeconds: null,
+};
+
+export const createTab = (
+  connectionId: string,
+  id = Date.now().toString()
+): Tab => ({
+  id,
+  name: "New Query",
+  content: "",
+  connectionId,
+  results: [],
+  activeResultIndex: 0,
+  skippedStatements: 0,
+  gridViews: [],
+  snapshot: null,
+});
+
+const normalizeSnapshot = (value: any): ResultSnapshot | null => {
+  if (typeof value !== "object" || value === null) return null;
+  const { statement, result, takenAt } = value;
+  if (
+    typeof statement !== "string" ||
+    typeof takenAt !== "string" ||
+    !Array.isArray(result?.columns) ||
+    !Array.isArray(result?.rows)
+  ) {
+    return null;
+  }
+  return { statement, result, takenAt };
+};
+
+const normalizeResult = (value: any): StatementResult | null => {
+  if (typeof value !== "object" || value === null) return null;
+  const { statement, response, executionTime } = value;
+  if (
+    typeof statement !== "string" ||
+    typeof executionTime !== "number" ||
+    !isQueryResponse(response)
+  ) {
+    return null;
+  }
+  return { statement, response, executionTime };
+};
+
+const normalizeTab = (tab: any, connectionId: string): Tab | null => {
+  if (typeof tab !== "object" || tab === null || typeof tab.id !== "string") {
+    return null;
+  }
+  const defaults = createTab(connectionId, tab.id);
+  const normalized = { ...defaults, ...tab };
+  const text = (field: unknown, fallback: string) =>
+    typeof field === "string" ? field : fallback;
+  normalized.name = text(normalized.name, defaults.name);
+  normalized.content = text(normalized.content, defaults.content);
+  normalized.connectionId = text(
+    normalized.connectionId,
+    defaults.connectionId
+  );
+  normalized.results = Array.isArray(normalized.results)
+    ? normalized.results
+        .map(normalizeResult)
+        .filter(
+          (result: StatementResult | null): result is StatementResult =>
+            result !== null
+        )
+    : [];
+  if (
+    !Number.isInteger(normalized.activeResultIndex) ||
+    normalized.activeResultIndex < 0
+  ) {
+    normalized.activeResultIndex = 0;
+  }
+  normalized.gridViews = Array.isArray(normalized.gridViews)
+    ? normalized.gridViews.map(normalizeGridView)
+    : [];
+  normalized.snapshot = normalizeSnapshot(normalized.snapshot);
+  normalized.activeResultIndex = Math.min(
+    normalized.activeResultIndex,
+    Math.max(normalized.results.length - 1, 0)
+  );
+  return normalized;
+};
+
+export const loadWorkspace = (
+  defaultConnectionId: string
+): Workspace | null => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+
+    let persisted = JSON.parse(raw);
+    let version =
+      typeof persisted?.version === "number" ? persisted.version : 0;
+    if (version > WORKSPACE_SCHEMA_VERSION) {
+      console.warn(
+        `Ignoring workspace saved by a newer version (schema ${version}).`
+      );
+      return null;
+    }
+    while (version < WORKSPACE_SCHEMA_VERSION) {
+      const migrate = MIGRATIONS[version];
+      if (!migrate) return null;
+      persisted = migrate(persisted);
+      version++;
+    }
+
+    const tabs: Tab[] = (Array.isArray(persisted.tabs) ? persisted.tabs : [])
+      .map((tab: unknown) => normalizeTab(tab, defaultConnectionId))
+      .filter((tab: Tab | null): tab is Tab => tab !== null);
+    if (tabs.length === 0) return null;
+
+    return {
+      tabs,
+      activeTab: tabs.some((tab) => tab.id === persisted.activeTab)
+        ? persisted.activeTab
+        : tabs[0].id,
+      settings: { ...DEFAULT_SETTINGS, ...persisted.settings },
+    };
+  } catch (error) {
+    console.error("Error loading workspace:", error);
+    return null;
+  }
+};
+
+// Rows of a result still streaming in are incomplete; only finished
+// results are saved.
+const withoutStreamingResults = (tab: Tab): Tab => {
+  const results = tab.results.filter((result) => !result.streaming);
+  return results.length === tab.results.length
+    ? tab
+    : {
+        ...tab,
+        results,
+        activeResultIndex: Math.min(
+          tab.activeResultIndex,
+          Math.max(results.length - 1, 0)
+        ),
+      };
+};
+
+export const saveWorkspace = ({ tabs, activeTab, settings }: Workspace) => {
+  const serialize = (includeResults: boolean) =>
+    JSON.stringify({
+      version: WORKSPACE_SCHEMA_VERSION,
+      activeTab,
+      settings,
+      tabs: includeResults
+        ? tabs.map(withoutStreamingResults)
+        : tabs.map((tab) => ({
+            ...tab,
+            results: [],
+            activeResultIndex: 0,
+            skippedStatements: 0,
+            snapshot: null,
+          })),
+    });
+
+  try {
+    let serialized = serialize(settings.persistResults);
+    if (serialized.length > MAX_PERSISTED_RESULTS_LENGTH) {
+      serialized = serialize(false);
+    }
+    localStorage.setItem(STORAGE_KEY, serialized);
+  } catch (error) {
+    // Most likely the quota; keep at least the queries themselves.
+    try {
+      localStorage.setItem(STORAGE_KEY, serialize(false));
+    } catch {
+      console.error("Error saving workspace:", error);
+    }
+  }
+};